@@ -0,0 +1,132 @@
+import { MockoonConfig, ResponseConfig, RouteConfig } from "../types";
+import { diffConfigs, formatConfigDiff } from "./config-diff";
+
+/**
+ * Builds a GET route
+ * @param uuid The route UUID
+ * @param responses The route responses
+ * @returns The route
+ */
+function route(uuid: string, responses: ResponseConfig[] = []): RouteConfig {
+  return {
+    uuid,
+    type: "http",
+    method: "get",
+    endpoint: uuid,
+    responses,
+  } as RouteConfig;
+}
+
+/**
+ * Builds an environment
+ * @param routes The routes
+ * @param fields The other fields
+ * @returns The environment
+ */
+function environment(
+  routes: RouteConfig[],
+  fields: Partial<MockoonConfig> = {}
+): MockoonConfig {
+  return {
+    uuid: "environment",
+    name: "Test",
+    port: 3000,
+    folders: [],
+    routes,
+    data: [],
+    rootChildren: [],
+    ...fields,
+  } as MockoonConfig;
+}
+
+describe("diffConfigs", () => {
+  it("finds no changes between equal configs", () => {
+    const config = environment([route("users")]);
+
+    expect(diffConfigs(config, JSON.parse(JSON.stringify(config)))).toEqual([]);
+    expect(formatConfigDiff([])).toBe("No changes");
+  });
+
+  it("lists added, removed and changed entities by kind", () => {
+    const before = environment([route("users"), route("orders")]);
+    const after = environment([route("users"), route("items")], {
+      port: 4000,
+      data: [{ uuid: "bucket", id: "b", name: "b" } as never],
+    });
+
+    expect(
+      diffConfigs(before, after).map(
+        ({ kind, name, change }) => `${change} ${kind} ${name}`
+      )
+    ).toEqual([
+      'changed environment "Test"',
+      "added route GET /items",
+      "removed route GET /orders",
+      'added databucket "b"',
+    ]);
+  });
+
+  it("compares stringified JSON bodies field by field", () => {
+    const before = environment([
+      route("users", [
+        {
+          uuid: "ok",
+          label: "Success",
+          body: JSON.stringify({ users: [{ name: "Ada" }] }),
+        } as ResponseConfig,
+      ]),
+    ]);
+    const after = environment([
+      route("users", [
+        {
+          uuid: "ok",
+          label: "Success",
+          body: JSON.stringify({ users: [{ name: "Grace" }] }, null, 2),
+        } as ResponseConfig,
+      ]),
+    ]);
+
+    const changes = diffConfigs(before, after);
+
+    expect(changes).toEqual([
+      {
+        kind: "response",
+        uuid: "ok",
+        name: 'GET /users "Success"',
+        change: "changed",
+        fields: [
+          { field: "body.users[0].name", before: "Ada", after: "Grace" },
+        ],
+      },
+    ]);
+    expect(formatConfigDiff(changes)).toBe(
+      [
+        '~ response GET /users "Success"',
+        '    body.users[0].name: "Ada" -> "Grace"',
+        "",
+        "0 added, 0 removed, 1 changed",
+      ].join("\n")
+    );
+  });
+
+  it("reports moved routes as a change of the environment", () => {
+    const before = environment([route("users"), route("orders")]);
+    const after = environment([route("orders"), route("users")]);
+
+    expect(diffConfigs(before, after)).toEqual([
+      {
+        kind: "environment",
+        uuid: "environment",
+        name: '"Test"',
+        change: "changed",
+        fields: [
+          {
+            field: "routes (order)",
+            before: ["GET /users", "GET /orders"],
+            after: ["GET /orders", "GET /users"],
+          },
+        ],
+      },
+    ]);
+  });
+});
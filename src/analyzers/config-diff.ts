@@ -0,0 +1,381 @@
+/**
+ * Compare two Mockoon configs entity by entity
+ */
+import { isDeepStrictEqual } from "util";
+import { MockoonConfig, ResponseConfig, RouteConfig } from "../types";
+import { describeRoute } from "./routes";
+
+/**
+ * The kinds of entities compared between configs
+ */
+export type EntityKind =
+  "environment" | "folder" | "route" | "response" | "databucket" | "callback";
+
+/**
+ * A field whose value differs between the configs
+ */
+export interface FieldChange {
+  // Path to the field, e.g. "headers[0].value" or "body.users[1].name"
+  field: string;
+  // The previous value, undefined when the field was added
+  before?: unknown;
+  // The new value, undefined when the field was removed
+  after?: unknown;
+}
+
+/**
+ * An entity that was added, removed or changed
+ */
+export interface EntityChange {
+  kind: EntityKind;
+  uuid: string;
+  // Readable name of the entity, e.g. 'GET /users' or 'databucket "users"'
+  name: string;
+  change: "added" | "removed" | "changed";
+  // The changed fields, empty for added and removed entities
+  fields: FieldChange[];
+}
+
+/**
+ * Order the kinds are listed in
+ */
+const KIND_ORDER: EntityKind[] = [
+  "environment",
+  "folder",
+  "route",
+  "response",
+  "databucket",
+  "callback",
+];
+
+/**
+ * Fields of the environment that hold entities compared on their own
+ */
+const ENTITY_FIELDS = ["folders", "routes", "data", "callbacks"];
+
+/**
+ * Parses a string holding a JSON object or array, like a stringified body
+ * @param value The value to parse
+ * @returns The parsed value, or undefined if it is not a JSON object or array
+ */
+function parseJsonObject(value: unknown): object | undefined {
+  if (typeof value !== "string" || !/^\s*[[{]/.test(value)) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return parsed !== null && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param value The value to check
+ * @returns True for objects that are not arrays or null
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects the fields that differ between two values
+ * Stringified JSON bodies are compared field by field
+ * @param before The previous value
+ * @param after The new value
+ * @param field The path to the values
+ * @param changes Receives the changed fields
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  field: string,
+  changes: FieldChange[]
+): void {
+  if (isDeepStrictEqual(before, after)) {
+    return;
+  }
+
+  const parsedBefore = parseJsonObject(before);
+  const parsedAfter = parseJsonObject(after);
+  if (parsedBefore && parsedAfter) {
+    diffValues(parsedBefore, parsedAfter, field, changes);
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (
+      let index = 0;
+      index < Math.max(before.length, after.length);
+      index++
+    ) {
+      diffValues(before[index], after[index], `${field}[${index}]`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(
+        before[key],
+        after[key],
+        field ? `${field}.${key}` : key,
+        changes
+      );
+    }
+    return;
+  }
+
+  changes.push({ field, before, after });
+}
+
+/**
+ * Copies an object without some of its fields
+ * @param value The object to copy
+ * @param fields The fields to leave out
+ * @returns The copy
+ */
+function withoutFields(value: object, fields: string[]): object {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !fields.includes(key))
+  );
+}
+
+/**
+ * Compares two lists of entities matched by UUID
+ * @param kind The kind of the entities
+ * @param before The previous entities
+ * @param after The new entities
+ * @param describe Builds the readable name of an entity
+ * @param omit Fields compared separately, left out of the field changes
+ * @returns The added, removed and changed entities
+ */
+function diffEntities<T extends { uuid: string }>(
+  kind: EntityKind,
+  before: T[],
+  after: T[],
+  describe: (entity: T) => string,
+  omit: string[] = []
+): EntityChange[] {
+  const changes: EntityChange[] = [];
+  const previous = new Map(before.map((entity) => [entity.uuid, entity]));
+  const current = new Set(after.map((entity) => entity.uuid));
+
+  for (const entity of after) {
+    const old = previous.get(entity.uuid);
+    if (!old) {
+      changes.push({
+        kind,
+        uuid: entity.uuid,
+        name: describe(entity),
+        change: "added",
+        fields: [],
+      });
+      continue;
+    }
+
+    const fields: FieldChange[] = [];
+    diffValues(
+      withoutFields(old, omit),
+      withoutFields(entity, omit),
+      "",
+      fields
+    );
+    if (fields.length > 0) {
+      changes.push({
+        kind,
+        uuid: entity.uuid,
+        name: describe(entity),
+        change: "changed",
+        fields,
+      });
+    }
+  }
+
+  for (const entity of before) {
+    if (!current.has(entity.uuid)) {
+      changes.push({
+        kind,
+        uuid: entity.uuid,
+        name: describe(entity),
+        change: "removed",
+        fields: [],
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Builds the readable name of a response
+ * @param route The route of the response
+ * @param response The response
+ * @param index The position of the response in the route
+ * @returns The name, e.g. 'GET /users "Success"'
+ */
+function describeResponse(
+  route: RouteConfig,
+  response: ResponseConfig,
+  index: number
+): string {
+  return `${describeRoute(route)} ${
+    response.label ? JSON.stringify(response.label) : `#${index}`
+  }`;
+}
+
+/**
+ * Compares a generated config with a previous one
+ * Folders, routes, responses, databuckets and callbacks are matched by UUID,
+ * the responses of added and removed routes are not listed on their own
+ * @param before The previous config, e.g. the committed config.json
+ * @param after The new config
+ * @returns The added, removed and changed entities, grouped by kind
+ */
+export function diffConfigs(
+  before: MockoonConfig,
+  after: MockoonConfig
+): EntityChange[] {
+  const changes: EntityChange[] = [];
+
+  // Environment settings, such as the port or global headers
+  const fields: FieldChange[] = [];
+  diffValues(
+    withoutFields(before, ENTITY_FIELDS),
+    withoutFields(after, ENTITY_FIELDS),
+    "",
+    fields
+  );
+
+  // Mockoon matches routes in array order, so moving a route is a change
+  const routeOrder = (config: MockoonConfig, others: MockoonConfig) => {
+    const uuids = new Set((others.routes || []).map((route) => route.uuid));
+    return (config.routes || [])
+      .filter((route) => uuids.has(route.uuid))
+      .map(describeRoute);
+  };
+  const previousOrder = routeOrder(before, after);
+  const currentOrder = routeOrder(after, before);
+  if (!isDeepStrictEqual(previousOrder, currentOrder)) {
+    fields.push({
+      field: "routes (order)",
+      before: previousOrder,
+      after: currentOrder,
+    });
+  }
+
+  if (fields.length > 0) {
+    changes.push({
+      kind: "environment",
+      uuid: after.uuid,
+      name: JSON.stringify(after.name),
+      change: "changed",
+      fields,
+    });
+  }
+
+  changes.push(
+    ...diffEntities(
+      "folder",
+      before.folders || [],
+      after.folders || [],
+      (folder) => JSON.stringify(folder.name)
+    ),
+    ...diffEntities(
+      "route",
+      before.routes || [],
+      after.routes || [],
+      describeRoute,
+      ["responses"]
+    ),
+    ...diffEntities(
+      "databucket",
+      before.data || [],
+      after.data || [],
+      (databucket) => JSON.stringify(databucket.id || databucket.name)
+    ),
+    ...diffEntities(
+      "callback",
+      before.callbacks || [],
+      after.callbacks || [],
+      (callback) => JSON.stringify(callback.id || callback.name)
+    )
+  );
+
+  // Responses of routes found in both configs
+  const previousRoutes = new Map(
+    (before.routes || []).map((route) => [route.uuid, route])
+  );
+  for (const route of after.routes || []) {
+    const previousRoute = previousRoutes.get(route.uuid);
+    if (!previousRoute) {
+      continue;
+    }
+    const responses = route.responses || [];
+    const previousResponses = previousRoute.responses || [];
+    changes.push(
+      ...diffEntities("response", previousResponses, responses, (response) =>
+        describeResponse(
+          route,
+          response,
+          responses.includes(response)
+            ? responses.indexOf(response)
+            : previousResponses.indexOf(response)
+        )
+      )
+    );
+  }
+
+  return changes.sort(
+    (a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+  );
+}
+
+/**
+ * Formats a value for the text output of a diff
+ * @param value The value to format
+ * @returns The value as JSON, shortened to a single line
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "(none)";
+  }
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Formats the changes between two configs as readable text
+ * @param changes The changes found by diffConfigs()
+ * @returns One line per entity, followed by its changed fields
+ */
+export function formatConfigDiff(changes: EntityChange[]): string {
+  if (changes.length === 0) {
+    return "No changes";
+  }
+
+  const symbols = { added: "+", removed: "-", changed: "~" };
+  const lines: string[] = [];
+  for (const change of changes) {
+    lines.push(`${symbols[change.change]} ${change.kind} ${change.name}`);
+    for (const { field, before, after } of change.fields) {
+      lines.push(
+        `    ${field || "(value)"}: ${formatValue(before)} -> ${formatValue(
+          after
+        )}`
+      );
+    }
+  }
+
+  const count = (type: EntityChange["change"]) =>
+    changes.filter((change) => change.change === type).length;
+  lines.push(
+    "",
+    `${count("added")} added, ${count("removed")} removed, ${count(
+      "changed"
+    )} changed`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,226 @@
+/**
+ * Check the references between routes, databuckets and callbacks
+ */
+import { ValidationIssue } from "../errors";
+import {
+  Callback,
+  DatabucketConfig,
+  FolderConfig,
+  GlobalConfig,
+  ResponseConfig,
+  RouteConfig,
+} from "../types";
+import { sourceOf, withSource } from "../sources";
+import { describeRoute } from "./routes";
+
+/**
+ * Result of checking the references of an environment
+ */
+export interface ReferenceReport {
+  // Dangling references and duplicate identifiers
+  issues: ValidationIssue[];
+  // Databuckets no response, callback or template refers to
+  unusedDatabuckets: DatabucketConfig<unknown>[];
+  // Callbacks no response invokes
+  unusedCallbacks: Callback[];
+}
+
+/**
+ * An entity with a UUID, described for error messages
+ */
+interface IdentifiedEntity {
+  uuid: string;
+  config: object;
+  description: string;
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param value The string to escape
+ * @returns The escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the location of a response for an issue
+ * @param route The route of the response
+ * @param response The response
+ * @param index The position of the response in the route
+ * @returns The source file and path of the response
+ */
+export function responseLocation(
+  route: RouteConfig,
+  response: ResponseConfig,
+  index: number
+): { file?: string; path: string } {
+  const file = sourceOf(response) || sourceOf(route);
+  const label = response.label ? ` (${JSON.stringify(response.label)})` : "";
+  const path = `responses[${index}]${label}`;
+  return file ? { file, path } : { path: `${describeRoute(route)} ${path}` };
+}
+
+/**
+ * Checks that databucket and callback references resolve and that UUIDs and
+ * databucket ids are unique
+ * @param globalConfig The global configuration
+ * @param folders The folders
+ * @param routes The routes
+ * @param databuckets The databuckets
+ * @param callbacks The inline and file callbacks
+ * @returns The problems found and the unused databuckets and callbacks
+ */
+export function checkReferences(
+  globalConfig: GlobalConfig,
+  folders: FolderConfig[],
+  routes: RouteConfig[],
+  databuckets: DatabucketConfig<unknown>[],
+  callbacks: Callback[]
+): ReferenceReport {
+  const issues: ValidationIssue[] = [];
+
+  // UUIDs must be unique across all entities
+  const entities: IdentifiedEntity[] = [
+    {
+      uuid: globalConfig.uuid,
+      config: globalConfig,
+      description: "environment",
+    },
+    ...folders.map((folder) => ({
+      uuid: folder.uuid,
+      config: folder,
+      description: `folder "${folder.name}"`,
+    })),
+    ...routes.flatMap((route) => [
+      {
+        uuid: route.uuid,
+        config: route,
+        description: `route ${describeRoute(route)}`,
+      },
+      ...(route.responses || []).map((response, index) => ({
+        uuid: response.uuid,
+        config: response,
+        description: `response ${index} of ${describeRoute(route)}`,
+      })),
+    ]),
+    ...databuckets.map((databucket) => ({
+      uuid: databucket.uuid,
+      config: databucket,
+      description: `databucket "${databucket.id}"`,
+    })),
+    ...callbacks.map((callback) => ({
+      uuid: callback.uuid,
+      config: callback,
+      description: `callback "${callback.id}"`,
+    })),
+  ];
+  const entitiesByUuid = new Map<string, IdentifiedEntity>();
+  for (const entity of entities) {
+    const first = entitiesByUuid.get(entity.uuid);
+    if (first) {
+      issues.push({
+        file: sourceOf(entity.config),
+        path: "uuid",
+        message: `duplicate UUID ${entity.uuid} of ${
+          entity.description
+        }, already used by ${withSource(first.description, first.config)}`,
+      });
+    } else {
+      entitiesByUuid.set(entity.uuid, entity);
+    }
+  }
+
+  // Databucket ids must be unique, responses refer to databuckets by id
+  const databucketsById = new Map<string, DatabucketConfig<unknown>>();
+  for (const databucket of databuckets) {
+    const first = databucketsById.get(databucket.id);
+    if (first) {
+      issues.push({
+        file: sourceOf(databucket),
+        path: "id",
+        message: `duplicate databucket id "${databucket.id}", already used by ${withSource(
+          `databucket "${first.name}"`,
+          first
+        )}`,
+      });
+    } else {
+      databucketsById.set(databucket.id, databucket);
+    }
+  }
+
+  const callbackUuids = new Set(callbacks.map((callback) => callback.uuid));
+  const usedDatabuckets = new Set<string>();
+  const usedCallbacks = new Set<string>();
+
+  for (const route of routes) {
+    (route.responses || []).forEach((response, index) => {
+      const location = responseLocation(route, response, index);
+
+      if (response.bodyType === "DATABUCKET") {
+        usedDatabuckets.add(response.databucketID);
+        if (!databucketsById.has(response.databucketID)) {
+          issues.push({
+            ...location,
+            path: `${location.path}.databucketID`,
+            message: `refers to databucket "${response.databucketID}", which does not exist`,
+          });
+        }
+      }
+
+      (response.callbacks || []).forEach((invocation, callbackIndex) => {
+        const { uuid } = invocation;
+        usedCallbacks.add(uuid);
+        if (!callbackUuids.has(uuid)) {
+          issues.push({
+            ...location,
+            path: `${location.path}.callbacks[${callbackIndex}].uuid`,
+            message: `refers to callback ${uuid}, which does not exist`,
+          });
+        }
+      });
+    });
+  }
+
+  callbacks.forEach((callback, index) => {
+    if (callback.bodyType === "DATABUCKET" && callback.databucketID) {
+      usedDatabuckets.add(callback.databucketID);
+      if (!databucketsById.has(callback.databucketID)) {
+        issues.push({
+          file: sourceOf(callback),
+          path: `callbacks[${index}].databucketID`,
+          message: `refers to databucket "${callback.databucketID}", which does not exist`,
+        });
+      }
+    }
+  });
+
+  // Templates can also read databuckets, e.g. {{data 'users'}}
+  const templates = JSON.stringify([routes, callbacks, databuckets]);
+  const unusedDatabuckets = databuckets.filter(
+    (databucket) =>
+      !usedDatabuckets.has(databucket.id) &&
+      !new RegExp(
+        `(?:data|dataRaw|setData)\\b[^}]*?['"\\\\]+${escapeRegExp(
+          databucket.id
+        )}['"\\\\]`
+      ).test(templates) &&
+      !routes.some((route) =>
+        (route.responses || []).some((response) =>
+          (response.rules || []).some(
+            (rule) =>
+              (rule.target === "data_bucket" &&
+                rule.modifier.split(".")[0] === databucket.id) ||
+              (rule.operator === "valid_json_schema" &&
+                (rule.value === databucket.id ||
+                  rule.value === databucket.name))
+          )
+        )
+      )
+  );
+  const unusedCallbacks = callbacks.filter(
+    (callback) => !usedCallbacks.has(callback.uuid)
+  );
+
+  return { issues, unusedDatabuckets, unusedCallbacks };
+}
@@ -0,0 +1,306 @@
+/**
+ * Analyse route endpoints for matching order
+ */
+import { RouteConfig } from "../types";
+
+/**
+ * A segment of a route endpoint
+ * "param" segments (":id") match one path segment, "wildcard" segments
+ * (containing "*") match the rest of the path
+ */
+export interface EndpointSegment {
+  kind: "static" | "param" | "wildcard";
+  value: string;
+}
+
+/**
+ * A route that can never be reached because an earlier route matches first
+ */
+export interface ShadowedRoute {
+  route: RouteConfig;
+  shadowedBy: RouteConfig;
+}
+
+/**
+ * A route whose endpoint matches the same requests as an earlier route
+ */
+export interface ConflictingRoute {
+  route: RouteConfig;
+  conflictsWith: RouteConfig;
+  // "duplicate" when both routes declare the same method and endpoint,
+  // "overlap" when the earlier route matches requests meant for the later,
+  // which is at least as specific (e.g. "users/:id" and "users/:userId",
+  // "users/*" and "users/:id", or "users/:id" and "users/me")
+  kind: "duplicate" | "overlap";
+}
+
+/**
+ * Rank of each segment kind, higher is more specific
+ */
+const SEGMENT_RANK: Record<EndpointSegment["kind"], number> = {
+  static: 2,
+  param: 1,
+  wildcard: 0,
+};
+
+/**
+ * Splits an endpoint into typed segments
+ * @param endpoint The route endpoint (e.g. "users/:id")
+ * @returns The endpoint segments
+ */
+export function parseEndpoint(endpoint: string): EndpointSegment[] {
+  return endpoint
+    .split("/")
+    .filter(Boolean)
+    .map((value) => {
+      if (value.includes("*")) {
+        return { kind: "wildcard", value };
+      }
+      if (value.startsWith(":")) {
+        return { kind: "param", value };
+      }
+      return { kind: "static", value };
+    });
+}
+
+/**
+ * Checks whether a parsed endpoint has no parameters or wildcards
+ * @param segments The endpoint segments
+ * @returns True if every segment is static
+ */
+export function isStaticEndpoint(segments: EndpointSegment[]): boolean {
+  return segments.every((segment) => segment.kind === "static");
+}
+
+/**
+ * Checks whether a pattern matches a concrete (static) path
+ * @param pattern The pattern segments
+ * @param path The path segments
+ * @returns True if a request to the path would match the pattern
+ */
+export function matchesPath(
+  pattern: EndpointSegment[],
+  path: EndpointSegment[]
+): boolean {
+  for (let index = 0; index < pattern.length; index++) {
+    const segment = pattern[index];
+    if (segment.kind === "wildcard") {
+      return true;
+    }
+    if (index >= path.length) {
+      return false;
+    }
+    if (segment.kind === "static" && segment.value !== path[index].value) {
+      return false;
+    }
+  }
+  return pattern.length === path.length;
+}
+
+/**
+ * Checks whether a request sent to one route's method could match another's
+ * @param first The method of the route matched first
+ * @param second The method of the route matched later
+ * @returns True if the first route also handles the second route's method
+ */
+export function methodsOverlap(first: string, second: string): boolean {
+  return first === second || first === "all";
+}
+
+/**
+ * Compares two endpoints so more specific ones sort first
+ * Static segments beat parameters, which beat wildcards; when one endpoint
+ * is a prefix of the other the longer one comes first
+ * @param a The first endpoint
+ * @param b The second endpoint
+ * @returns A negative number if a is more specific, positive if b is
+ */
+export function compareSpecificity(a: string, b: string): number {
+  return compareSegments(parseEndpoint(a), parseEndpoint(b));
+}
+
+/**
+ * Compares two parsed endpoints so more specific ones sort first
+ * @param left The first endpoint's segments
+ * @param right The second endpoint's segments
+ * @returns A negative number if left is more specific, positive if right is
+ */
+function compareSegments(
+  left: EndpointSegment[],
+  right: EndpointSegment[]
+): number {
+  for (let index = 0; index < Math.min(left.length, right.length); index++) {
+    const difference =
+      SEGMENT_RANK[right[index].kind] - SEGMENT_RANK[left[index].kind];
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return right.length - left.length;
+}
+
+/**
+ * Sorts routes so more specific endpoints are matched first
+ * Routes with equally specific endpoints keep their relative order
+ * @param routes The routes to sort
+ * @returns A new, sorted array
+ */
+export function sortRoutesBySpecificity(routes: RouteConfig[]): RouteConfig[] {
+  return [...routes].sort((a, b) => compareSpecificity(a.endpoint, b.endpoint));
+}
+
+/**
+ * Finds static routes that come after a parameterised route matching them
+ * @param routes The routes in matching order
+ * @returns The shadowed routes with the route that shadows each of them
+ */
+export function findShadowedRoutes(routes: RouteConfig[]): ShadowedRoute[] {
+  const parsed = routes.map((route) => parseEndpoint(route.endpoint));
+  const shadowed: ShadowedRoute[] = [];
+
+  routes.forEach((route, index) => {
+    if (!isStaticEndpoint(parsed[index])) {
+      return;
+    }
+
+    for (let earlier = 0; earlier < index; earlier++) {
+      const candidate = routes[earlier];
+      if (
+        !isStaticEndpoint(parsed[earlier]) &&
+        methodsOverlap(candidate.method, route.method) &&
+        matchesPath(parsed[earlier], parsed[index])
+      ) {
+        shadowed.push({ route, shadowedBy: candidate });
+        return;
+      }
+    }
+  });
+
+  return shadowed;
+}
+
+/**
+ * Checks whether two patterns match at least one common path
+ * Parameters match any segment and wildcards the rest of the path, as in
+ * matchesPath
+ * @param first The first pattern's segments
+ * @param second The second pattern's segments
+ * @returns True if a request path could match both patterns
+ */
+export function patternsOverlap(
+  first: EndpointSegment[],
+  second: EndpointSegment[]
+): boolean {
+  for (let index = 0; index < Math.max(first.length, second.length); index++) {
+    const left = first[index];
+    const right = second[index];
+    if (left?.kind === "wildcard" || right?.kind === "wildcard") {
+      return true;
+    }
+    if (!left || !right) {
+      return false;
+    }
+    if (
+      left.kind === "static" &&
+      right.kind === "static" &&
+      left.value !== right.value
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Removes leading and trailing slashes from an endpoint
+ * @param endpoint The endpoint
+ * @returns The endpoint without surrounding slashes
+ */
+function trimSlashes(endpoint: string): string {
+  return endpoint.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Lists the endpoint patterns a route handles
+ * CRUD routes handle both the collection and its items
+ * @param route The route
+ * @returns The parsed endpoint patterns
+ */
+function handledEndpoints(route: RouteConfig): EndpointSegment[][] {
+  const segments = parseEndpoint(route.endpoint);
+  return route.type === "crud"
+    ? [segments, [...segments, { kind: "param", value: ":id" }]]
+    : [segments];
+}
+
+/**
+ * Gets the method a route handles, CRUD routes handle every method
+ * @param route The route
+ * @returns The method
+ */
+function handledMethod(route: RouteConfig): string {
+  return route.type === "crud" ? "all" : route.method;
+}
+
+/**
+ * Finds routes whose endpoint matches some of the same requests as an earlier
+ * route for an overlapping method
+ * An earlier route that is more specific than the later one is the order
+ * route sorting produces (e.g. "users/me" before "users/:id"), so it isn't
+ * reported
+ * HTTP routes are only compared with HTTP and CRUD routes, WebSocket routes
+ * only with WebSocket routes
+ * @param routes The routes in matching order
+ * @returns A conflict for every later route and each earlier route it conflicts with
+ */
+export function findConflictingRoutes(
+  routes: RouteConfig[]
+): ConflictingRoute[] {
+  const endpoints = routes.map(handledEndpoints);
+  const conflicts: ConflictingRoute[] = [];
+
+  routes.forEach((route, index) => {
+    for (let earlier = 0; earlier < index; earlier++) {
+      const candidate = routes[earlier];
+      const first = handledMethod(candidate);
+      const second = handledMethod(route);
+
+      if (
+        (candidate.type === "ws") === (route.type === "ws") &&
+        (methodsOverlap(first, second) || methodsOverlap(second, first)) &&
+        endpoints[index].some((endpoint) =>
+          endpoints[earlier].some(
+            (other) =>
+              patternsOverlap(other, endpoint) &&
+              compareSegments(other, endpoint) >= 0
+          )
+        )
+      ) {
+        const duplicate =
+          candidate.type === route.type &&
+          candidate.method === route.method &&
+          trimSlashes(candidate.endpoint) === trimSlashes(route.endpoint);
+
+        conflicts.push({
+          route,
+          conflictsWith: candidate,
+          kind: duplicate ? "duplicate" : "overlap",
+        });
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Formats a route as "METHOD endpoint" for messages
+ * @param route The route
+ * @returns The route description
+ */
+export function describeRoute(route: RouteConfig): string {
+  return `${(route.method || "").toUpperCase()} /${route.endpoint.replace(
+    /^\/+/,
+    ""
+  )}`;
+}
@@ -0,0 +1,158 @@
+/**
+ * Check the values of response rules that Mockoon only reads at request time
+ */
+import { ValidationIssue } from "../errors";
+import { DatabucketConfig, RouteConfig } from "../types";
+import { responseLocation } from "./references";
+
+/**
+ * Types a JSON schema can declare
+ */
+const JSON_SCHEMA_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "object",
+  "array",
+  "null",
+];
+
+/**
+ * Checks the common keywords of a JSON schema
+ * Only the shape of the schema is checked, not every keyword of the spec
+ * @param schema The parsed schema
+ * @returns The problem found, if any
+ */
+function checkJsonSchema(schema: unknown): string | undefined {
+  if (typeof schema === "boolean") {
+    return undefined;
+  }
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    return "is not a JSON object";
+  }
+
+  const { type, properties, required, items } = schema as Record<
+    string,
+    unknown
+  >;
+  const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+  const unknownType = types.find((item) => !JSON_SCHEMA_TYPES.includes(item));
+  if (unknownType !== undefined) {
+    return `has an unknown type ${JSON.stringify(unknownType)}`;
+  }
+  if (
+    required !== undefined &&
+    (!Array.isArray(required) ||
+      required.some((name) => typeof name !== "string"))
+  ) {
+    return `has a "required" keyword that is not a list of property names`;
+  }
+  if (properties !== undefined) {
+    if (typeof properties !== "object" || properties === null) {
+      return `has a "properties" keyword that is not an object`;
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      const problem = checkJsonSchema(property);
+      if (problem) {
+        return `${problem} in property ${JSON.stringify(name)}`;
+      }
+    }
+  }
+  if (items !== undefined && !Array.isArray(items)) {
+    const problem = checkJsonSchema(items);
+    if (problem) {
+      return `${problem} in "items"`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the JSON schema held by a databucket
+ * @param databucket The databucket
+ * @returns The schema, the problem found instead, or neither when the value
+ * is a template that is only rendered by Mockoon
+ */
+function readSchema(databucket: DatabucketConfig<unknown>): {
+  schema?: unknown;
+  problem?: string;
+} {
+  if (typeof databucket.value !== "string") {
+    return { schema: databucket.value };
+  }
+  if (databucket.value.includes("{{")) {
+    return {};
+  }
+  try {
+    return { schema: JSON.parse(databucket.value) };
+  } catch {
+    return { problem: "is not valid JSON" };
+  }
+}
+
+/**
+ * Checks the regular expressions of regex rules and the databuckets of
+ * valid_json_schema rules
+ * @param routes The routes with their responses and rules
+ * @param databuckets The databuckets
+ * @returns The problems found
+ */
+export function checkRules(
+  routes: RouteConfig[],
+  databuckets: DatabucketConfig<unknown>[]
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const route of routes) {
+    (route.responses || []).forEach((response, index) => {
+      const location = responseLocation(route, response, index);
+
+      (response.rules || []).forEach((rule, ruleIndex) => {
+        const path = `${location.path}.rules[${ruleIndex}].value`;
+
+        if (rule.operator === "regex" || rule.operator === "regex_i") {
+          try {
+            new RegExp(rule.value);
+          } catch (error) {
+            issues.push({
+              ...location,
+              path,
+              message: `is not a valid regular expression: ${
+                error instanceof Error ? error.message : error
+              }`,
+            });
+          }
+        }
+
+        if (rule.operator === "valid_json_schema") {
+          // Mockoon finds the schema's databucket by id or name
+          const databucket = databuckets.find(
+            (bucket) => bucket.id === rule.value || bucket.name === rule.value
+          );
+          if (!databucket) {
+            issues.push({
+              ...location,
+              path,
+              message: `refers to databucket "${rule.value}", which does not exist`,
+            });
+            return;
+          }
+
+          const { schema, problem } = readSchema(databucket);
+          const schemaProblem =
+            problem || (schema !== undefined && checkJsonSchema(schema));
+          if (schemaProblem) {
+            issues.push({
+              ...location,
+              path,
+              message: `refers to databucket "${rule.value}", which does not hold a valid JSON schema (its value ${schemaProblem})`,
+            });
+          }
+        }
+      });
+    });
+  }
+
+  return issues;
+}
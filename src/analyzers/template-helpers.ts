@@ -0,0 +1,406 @@
+/**
+ * Helpers and Faker methods available in Mockoon templates
+ * Taken from @mockoon/commons-server 9.9 and the @faker-js/faker 9.9 it uses
+ */
+
+/**
+ * Helpers Mockoon registers, plus the Handlebars built-in helpers
+ */
+export const MOCKOON_HELPERS = new Set([
+  "if",
+  "unless",
+  "each",
+  "with",
+  "lookup",
+  "log",
+  "add",
+  "array",
+  "base64",
+  "base64Decode",
+  "base64url",
+  "base64urlDecode",
+  "boolean",
+  "case",
+  "ceil",
+  "city",
+  "color",
+  "company",
+  "concat",
+  "country",
+  "countryCode",
+  "date",
+  "dateFormat",
+  "isValidDate",
+  "dateTimeShift",
+  "default",
+  "divide",
+  "domain",
+  "email",
+  "eq",
+  "filter",
+  "find",
+  "firstName",
+  "float",
+  "floor",
+  "getVar",
+  "gt",
+  "gte",
+  "guid",
+  "uuid",
+  "hexColor",
+  "includes",
+  "indexOf",
+  "int",
+  "ipv4",
+  "ipv6",
+  "jmesPath",
+  "join",
+  "jsonParse",
+  "jsonPath",
+  "jwtHeader",
+  "jwtPayload",
+  "lastName",
+  "lat",
+  "len",
+  "long",
+  "lorem",
+  "lowercase",
+  "lt",
+  "lte",
+  "modulo",
+  "multiply",
+  "newline",
+  "now",
+  "object",
+  "objectId",
+  "objectMerge",
+  "objectPath",
+  "oneOf",
+  "padEnd",
+  "padStart",
+  "parseInt",
+  "phone",
+  "postcode",
+  "repeat",
+  "replace",
+  "replaceAll",
+  "reverse",
+  "round",
+  "setVar",
+  "slice",
+  "someOf",
+  "sort",
+  "sortBy",
+  "split",
+  "street",
+  "stringify",
+  "substr",
+  "subtract",
+  "switch",
+  "time",
+  "title",
+  "tld",
+  "toFixed",
+  "uppercase",
+  "zipcode",
+  "faker",
+  "baseUrl",
+  "body",
+  "bodyRaw",
+  "cookie",
+  "header",
+  "headers",
+  "hostname",
+  "ip",
+  "method",
+  "queryParam",
+  "queryParamRaw",
+  "queryParams",
+  "urlParam",
+  "urlParams",
+  "data",
+  "dataRaw",
+  "setData",
+  "getEnvVar",
+  "getGlobalVar",
+  "setGlobalVar",
+  "status",
+]);
+
+/**
+ * Methods of each Faker module, as used in {{faker 'module.method'}}
+ */
+export const FAKER_METHODS: Record<string, string[]> = {
+  airline: [
+    "aircraftType",
+    "airline",
+    "airplane",
+    "airport",
+    "flightNumber",
+    "recordLocator",
+    "seat",
+  ],
+  animal: [
+    "bear",
+    "bird",
+    "cat",
+    "cetacean",
+    "cow",
+    "crocodilia",
+    "dog",
+    "fish",
+    "horse",
+    "insect",
+    "lion",
+    "petName",
+    "rabbit",
+    "rodent",
+    "snake",
+    "type",
+  ],
+  book: ["author", "format", "genre", "publisher", "series", "title"],
+  color: [
+    "cmyk",
+    "colorByCSSColorSpace",
+    "cssSupportedFunction",
+    "cssSupportedSpace",
+    "hsl",
+    "human",
+    "hwb",
+    "lab",
+    "lch",
+    "rgb",
+    "space",
+  ],
+  commerce: [
+    "department",
+    "isbn",
+    "price",
+    "product",
+    "productAdjective",
+    "productDescription",
+    "productMaterial",
+    "productName",
+  ],
+  company: [
+    "buzzAdjective",
+    "buzzNoun",
+    "buzzPhrase",
+    "buzzVerb",
+    "catchPhrase",
+    "catchPhraseAdjective",
+    "catchPhraseDescriptor",
+    "catchPhraseNoun",
+    "name",
+  ],
+  database: ["collation", "column", "engine", "mongodbObjectId", "type"],
+  datatype: ["boolean"],
+  date: [
+    "anytime",
+    "between",
+    "betweens",
+    "birthdate",
+    "future",
+    "month",
+    "past",
+    "recent",
+    "soon",
+    "timeZone",
+    "weekday",
+  ],
+  finance: [
+    "accountName",
+    "accountNumber",
+    "amount",
+    "bic",
+    "bitcoinAddress",
+    "creditCardCVV",
+    "creditCardIssuer",
+    "creditCardNumber",
+    "currency",
+    "currencyCode",
+    "currencyName",
+    "currencyNumericCode",
+    "currencySymbol",
+    "ethereumAddress",
+    "iban",
+    "litecoinAddress",
+    "maskedNumber",
+    "pin",
+    "routingNumber",
+    "transactionDescription",
+    "transactionType",
+  ],
+  food: [
+    "adjective",
+    "description",
+    "dish",
+    "ethnicCategory",
+    "fruit",
+    "ingredient",
+    "meat",
+    "spice",
+    "vegetable",
+  ],
+  git: ["branch", "commitDate", "commitEntry", "commitMessage", "commitSha"],
+  hacker: ["abbreviation", "adjective", "ingverb", "noun", "phrase", "verb"],
+  helpers: [
+    "arrayElement",
+    "arrayElements",
+    "enumValue",
+    "fake",
+    "fromRegExp",
+    "maybe",
+    "multiple",
+    "mustache",
+    "objectEntry",
+    "objectKey",
+    "objectValue",
+    "rangeToNumber",
+    "replaceCreditCardSymbols",
+    "replaceSymbols",
+    "shuffle",
+    "slugify",
+    "uniqueArray",
+    "weightedArrayElement",
+  ],
+  image: [
+    "avatar",
+    "avatarGitHub",
+    "avatarLegacy",
+    "dataUri",
+    "personPortrait",
+    "url",
+    "urlLoremFlickr",
+    "urlPicsumPhotos",
+    "urlPlaceholder",
+  ],
+  internet: [
+    "color",
+    "displayName",
+    "domainName",
+    "domainSuffix",
+    "domainWord",
+    "email",
+    "emoji",
+    "exampleEmail",
+    "httpMethod",
+    "httpStatusCode",
+    "ip",
+    "ipv4",
+    "ipv6",
+    "jwt",
+    "jwtAlgorithm",
+    "mac",
+    "password",
+    "port",
+    "protocol",
+    "url",
+    "userAgent",
+    "userName",
+    "username",
+  ],
+  location: [
+    "buildingNumber",
+    "cardinalDirection",
+    "city",
+    "continent",
+    "country",
+    "countryCode",
+    "county",
+    "direction",
+    "language",
+    "latitude",
+    "longitude",
+    "nearbyGPSCoordinate",
+    "ordinalDirection",
+    "secondaryAddress",
+    "state",
+    "street",
+    "streetAddress",
+    "timeZone",
+    "zipCode",
+  ],
+  lorem: [
+    "lines",
+    "paragraph",
+    "paragraphs",
+    "sentence",
+    "sentences",
+    "slug",
+    "text",
+    "word",
+    "words",
+  ],
+  music: ["album", "artist", "genre", "songName"],
+  number: ["bigInt", "binary", "float", "hex", "int", "octal", "romanNumeral"],
+  person: [
+    "bio",
+    "firstName",
+    "fullName",
+    "gender",
+    "jobArea",
+    "jobDescriptor",
+    "jobTitle",
+    "jobType",
+    "lastName",
+    "middleName",
+    "prefix",
+    "sex",
+    "sexType",
+    "suffix",
+    "zodiacSign",
+  ],
+  phone: ["imei", "number"],
+  science: ["chemicalElement", "unit"],
+  string: [
+    "alpha",
+    "alphanumeric",
+    "binary",
+    "fromCharacters",
+    "hexadecimal",
+    "nanoid",
+    "numeric",
+    "octal",
+    "sample",
+    "symbol",
+    "ulid",
+    "uuid",
+  ],
+  system: [
+    "commonFileExt",
+    "commonFileName",
+    "commonFileType",
+    "cron",
+    "directoryPath",
+    "fileExt",
+    "fileName",
+    "filePath",
+    "fileType",
+    "mimeType",
+    "networkInterface",
+    "semver",
+  ],
+  vehicle: [
+    "bicycle",
+    "color",
+    "fuel",
+    "manufacturer",
+    "model",
+    "type",
+    "vehicle",
+    "vin",
+    "vrm",
+  ],
+  word: [
+    "adjective",
+    "adverb",
+    "conjunction",
+    "interjection",
+    "noun",
+    "preposition",
+    "sample",
+    "verb",
+    "words",
+  ],
+};
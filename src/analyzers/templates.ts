@@ -0,0 +1,230 @@
+/**
+ * Lint the Handlebars templates Mockoon renders
+ */
+import * as Handlebars from "handlebars";
+import { ValidationIssue } from "../errors";
+import { Callback, DatabucketConfig, RouteConfig } from "../types";
+import { serializeValue } from "../templates";
+import { sourceOf } from "../sources";
+import { responseLocation } from "./references";
+import { FAKER_METHODS, MOCKOON_HELPERS } from "./template-helpers";
+
+/**
+ * Nodes of the Handlebars AST that can call a helper
+ */
+type HelperCall =
+  hbs.AST.MustacheStatement | hbs.AST.BlockStatement | hbs.AST.SubExpression;
+
+/**
+ * A problem found in a template, with the line it is on
+ */
+interface TemplateProblem {
+  message: string;
+  line?: number;
+}
+
+/**
+ * Turns a Handlebars parse error into a one-line message
+ * @param error The error thrown by the parser
+ * @returns The message
+ */
+function describeParseError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const lines = message.split("\n");
+
+  if (message.includes("got 'EOF'")) {
+    return `${lines[0].replace(/:$/, "")}: unclosed block or expression`;
+  }
+  if (message.includes("got 'OPEN_ENDBLOCK'")) {
+    return `${lines[0].replace(/:$/, "")}: closing block without an opening one`;
+  }
+  return lines.length > 1
+    ? `${lines[0].replace(/:$/, "")}: ${lines[lines.length - 1]}`
+    : message;
+}
+
+/**
+ * Checks the method passed to the faker helper
+ * @param node The faker helper call
+ * @returns The problem found, if any
+ */
+function checkFakerMethod(node: HelperCall): string | undefined {
+  const [method] = node.params;
+  if (!method || method.type !== "StringLiteral") {
+    return undefined;
+  }
+
+  const name = (method as hbs.AST.StringLiteral).value;
+  const [module, fakerMethod, ...rest] = name.split(".");
+  if (!module || !fakerMethod || rest.length > 0) {
+    return `faker method "${name}" must look like "module.method"`;
+  }
+  if (!FAKER_METHODS[module]) {
+    return `unknown Faker module "${module}" in "${name}"`;
+  }
+  if (!FAKER_METHODS[module].includes(fakerMethod)) {
+    return `unknown Faker method "${name}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks a parsed template, collecting a message for every problem
+ * @param node The node to check
+ * @param problems Receives the problems found
+ */
+function checkNode(
+  node: hbs.AST.Node | undefined,
+  problems: TemplateProblem[]
+): void {
+  if (!node) {
+    return;
+  }
+  const line = node.loc?.start.line;
+
+  switch (node.type) {
+    case "Program":
+      (node as hbs.AST.Program).body.forEach((child) =>
+        checkNode(child, problems)
+      );
+      return;
+
+    case "PartialStatement":
+    case "PartialBlockStatement":
+      problems.push({ message: "partials are not supported by Mockoon", line });
+      return;
+
+    case "MustacheStatement":
+    case "BlockStatement":
+    case "SubExpression": {
+      const call = node as HelperCall;
+      const path = call.path as hbs.AST.PathExpression;
+
+      // Without arguments, a plain name may also be a property of the context
+      const isHelperCall =
+        node.type !== "MustacheStatement" ||
+        call.params.length > 0 ||
+        (call.hash?.pairs.length ?? 0) > 0;
+
+      if (
+        path.type === "PathExpression" &&
+        isHelperCall &&
+        !path.data &&
+        path.parts.length === 1 &&
+        !MOCKOON_HELPERS.has(path.original)
+      ) {
+        problems.push({ message: `unknown helper "${path.original}"`, line });
+      }
+      if (path.type === "PathExpression" && path.original === "faker") {
+        const problem = checkFakerMethod(call);
+        if (problem) {
+          problems.push({ message: problem, line });
+        }
+      }
+
+      call.params.forEach((param) => checkNode(param, problems));
+      call.hash?.pairs.forEach((pair) => checkNode(pair.value, problems));
+      if (node.type === "BlockStatement") {
+        checkNode((node as hbs.AST.BlockStatement).program, problems);
+        checkNode((node as hbs.AST.BlockStatement).inverse, problems);
+      }
+      return;
+    }
+
+    default:
+      return;
+  }
+}
+
+/**
+ * Parses and checks a Handlebars template
+ * @param template The template source
+ * @returns The problems found
+ */
+export function lintTemplate(template: string): string[] {
+  // Templates without expressions are served as they are
+  if (!template.includes("{{")) {
+    return [];
+  }
+
+  let program: hbs.AST.Program;
+  try {
+    program = Handlebars.parse(template);
+  } catch (error) {
+    return [describeParseError(error)];
+  }
+
+  const problems: TemplateProblem[] = [];
+  checkNode(program, problems);
+
+  // Line numbers only help in templates spanning several lines
+  const multiline = template.includes("\n");
+  return problems.map(({ message, line }) =>
+    multiline && line ? `${message} (line ${line})` : message
+  );
+}
+
+/**
+ * Checks the templates of response bodies and headers, databucket values and
+ * callback bodies against Mockoon's helpers and Faker's methods
+ * Responses with disableTemplating set are left out
+ * @param routes The routes
+ * @param databuckets The databuckets
+ * @param callbacks The inline and file callbacks
+ * @returns The problems found
+ */
+export function lintTemplates(
+  routes: RouteConfig[],
+  databuckets: DatabucketConfig<unknown>[],
+  callbacks: Callback[]
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  const lint = (value: unknown, location: { file?: string; path: string }) => {
+    if (value === undefined || value === null || value === "") {
+      return;
+    }
+    const template = typeof value === "string" ? value : serializeValue(value);
+    lintTemplate(template).forEach((message) =>
+      issues.push({ ...location, message })
+    );
+  };
+
+  for (const route of routes) {
+    (route.responses || []).forEach((response, index) => {
+      if (response.disableTemplating) {
+        return;
+      }
+
+      const location = responseLocation(route, response, index);
+      if (response.bodyType === "INLINE") {
+        lint(response.body, { ...location, path: `${location.path}.body` });
+      }
+      (response.headers || []).forEach((header, headerIndex) =>
+        lint(header.value, {
+          ...location,
+          path: `${location.path}.headers[${headerIndex}].value`,
+        })
+      );
+    });
+  }
+
+  databuckets.forEach((databucket, index) => {
+    const file = sourceOf(databucket);
+    lint(databucket.value, {
+      file,
+      path: file ? "value" : `data[${index}].value`,
+    });
+  });
+
+  callbacks.forEach((callback, index) => {
+    if (callback.bodyType === "INLINE") {
+      lint(callback.body, {
+        file: sourceOf(callback),
+        path: `callbacks[${index}].body`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,156 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { generate } from "./api";
+import { ValidationError } from "./errors";
+import { createNamespace, deriveUUID } from "./identifiers";
+
+const ENVIRONMENT_UUID = "0b5b1d3e-2a4f-4c6d-8e9f-1a2b3c4d5e6f";
+
+/**
+ * Writes source files to a directory
+ * @param dir The source directory
+ * @param files The contents of each file, by path relative to the directory
+ */
+async function writeSources(
+  dir: string,
+  files: Record<string, string>
+): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.outputFile(path.join(dir, file), content);
+  }
+}
+
+describe("generate", () => {
+  let rootDir: string;
+  let srcDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "generate-"));
+    srcDir = path.join(rootDir, "src");
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  // Compiling the sources twice takes a while
+  it("compiles the sources and fills in defaults and derived UUIDs", async () => {
+    await writeSources(srcDir, {
+      "global.ts": `export default { uuid: "${ENVIRONMENT_UUID}", name: "Test", port: 4000 };`,
+      "features/user-accounts/get-users.ts": `export default {
+        endpoint: "api/users",
+        responses: [{ label: "Success", body: { users: [] } }],
+      };`,
+      "data/users.ts": `export default { id: "users", name: "Users", documentation: "", value: [{ id: 1 }] };`,
+    });
+
+    const config = await generate({ srcDir });
+
+    const namespace = createNamespace(ENVIRONMENT_UUID);
+    expect(config).toMatchObject({
+      uuid: ENVIRONMENT_UUID,
+      name: "Test",
+      port: 4000,
+      cors: true,
+      folders: [
+        {
+          uuid: deriveUUID(namespace, "folder", "features/user-accounts"),
+          name: "User Accounts",
+          children: [
+            {
+              type: "route",
+              uuid: deriveUUID(
+                namespace,
+                "route",
+                "features/user-accounts/get-users"
+              ),
+            },
+          ],
+        },
+      ],
+      routes: [
+        {
+          type: "http",
+          method: "get",
+          endpoint: "api/users",
+          responses: [
+            {
+              uuid: deriveUUID(
+                namespace,
+                "response",
+                'features/user-accounts/get-users#"Success"'
+              ),
+              statusCode: 200,
+              bodyType: "INLINE",
+              default: true,
+            },
+          ],
+        },
+      ],
+      data: [
+        {
+          uuid: deriveUUID(namespace, "databucket", "data/users"),
+          id: "users",
+        },
+      ],
+    });
+    expect(JSON.parse(config.routes[0].responses[0].body)).toEqual({
+      users: [],
+    });
+    expect(JSON.parse(config.data[0].value)).toEqual([{ id: 1 }]);
+
+    // The same sources give the same config, and the compiled files are removed
+    expect(await generate({ srcDir })).toEqual(config);
+    expect(await fs.readdir(rootDir)).toEqual(["src"]);
+  }, 60000);
+
+  it("inlines fixtures without turning their directory into a folder", async () => {
+    const fixtures = JSON.stringify(path.resolve(__dirname, "fixtures"));
+    await writeSources(srcDir, {
+      "global.js": `exports.default = { uuid: "${ENVIRONMENT_UUID}", name: "Test" };`,
+      "features/codes/get-codes.js": `const { fixture } = require(${fixtures});
+        exports.default = {
+          endpoint: "codes",
+          responses: [{ body: fixture("./fixtures/codes.csv") }],
+        };`,
+      "features/codes/fixtures/codes.csv": "code,count\n007,3\n",
+    });
+
+    const config = await generate({ srcDir, compile: false });
+
+    expect(config.folders.map(({ name }) => name)).toEqual(["Codes"]);
+    expect(JSON.parse(config.routes[0].responses[0].body)).toEqual([
+      { code: "007", count: 3 },
+    ]);
+  });
+
+  it("reports every invalid field at once", async () => {
+    await writeSources(srcDir, {
+      "global.js": `exports.default = { uuid: "${ENVIRONMENT_UUID}", name: "Test" };`,
+      "features/get-user.js": `exports.default = {
+        uuid: "not-a-uuid",
+        endpoint: "user",
+        methd: "post",
+        responses: [{ label: "Success", statusCode: 99 }],
+      };`,
+    });
+
+    const error = await generate({ srcDir, compile: false }).catch(
+      (caught) => caught
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(
+      (error as ValidationError).issues.map(
+        ({ path, message }) => `${path}: ${message}`
+      )
+    ).toEqual(
+      expect.arrayContaining([
+        'uuid: expected a UUID, got "not-a-uuid"',
+        "methd: is not a known field",
+        expect.stringMatching(/^responses\[0\] \("Success"\)\.statusCode: /),
+      ])
+    );
+  });
+});
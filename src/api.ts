@@ -0,0 +1,489 @@
+/**
+ * Programmatic API for generating Mockoon configurations
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import { compileTypeScript } from "./compiler";
+import {
+  DEFAULT_ENVIRONMENT,
+  EnvironmentSource,
+  findEnvironments,
+  processGlobalConfig,
+} from "./processors/global-processor";
+import { processFeatures } from "./processors/feature-processor";
+import { processData } from "./processors/data-processor";
+import {
+  mergeCallbacks,
+  processCallbacks,
+} from "./processors/callback-processor";
+import { resolveReferences } from "./processors/reference-resolver";
+import { resolveFixtures } from "./processors/fixture-resolver";
+import { resolveAssets } from "./processors/asset-resolver";
+import { normalizeDefaults } from "./processors/defaults-normalizer";
+import { overlayProfiles } from "./processors/profile-overlay";
+import { generateConfig } from "./generators/config-generator";
+import { ASSETS_DIR, bundleAssets } from "./generators/asset-bundler";
+import { mergeConfigs } from "./generators/config-merger";
+import { validateSchema } from "./validators";
+import { createNamespace } from "./identifiers";
+import {
+  compareSpecificity,
+  ConflictingRoute,
+  describeRoute,
+  findConflictingRoutes,
+  findShadowedRoutes,
+  sortRoutesBySpecificity,
+} from "./analyzers/routes";
+import { checkReferences } from "./analyzers/references";
+import { lintTemplates } from "./analyzers/templates";
+import { checkRules } from "./analyzers/rules";
+import { GeneratorError, ValidationError } from "./errors";
+import { sourceOf, withSource } from "./sources";
+import { Logger, silentLogger } from "./logger";
+import { MockoonConfig, RouteConfig } from "./types";
+
+/**
+ * Options for generating a config
+ */
+export interface GenerateOptions {
+  // Directory containing global.ts, features/ and data/
+  srcDir: string;
+  // Whether to compile the TypeScript sources first (default: true).
+  // Set to false when srcDir already holds the compiled JavaScript files.
+  compile?: boolean;
+  // Directory containing the TypeScript sources, which the file paths of
+  // FILE bodies are resolved against (default: srcDir)
+  sourceDir?: string;
+  // Receives progress messages (default: no logging)
+  logger?: Logger;
+  // Sort routes so more specific endpoints are matched first (default: false)
+  sortRoutes?: boolean;
+  // Fail on duplicate and overlapping routes instead of warning (default: false)
+  strict?: boolean;
+  // Environment to generate with generate() when the sources define several
+  // (default: the one defined by global.ts)
+  environment?: string;
+  // Profile whose overlay files (e.g. global.ci.ts, get-user.ci.ts) are
+  // deep-merged onto their base files (default: no overlays)
+  profile?: string;
+}
+
+/**
+ * A config generated for one of the environments of the source tree
+ */
+export interface GeneratedEnvironment {
+  // The environment name ("default" for global.ts)
+  name: string;
+  config: MockoonConfig;
+}
+
+/**
+ * Options for writing a config
+ */
+export interface WriteOptions {
+  // Receives progress messages (default: no logging)
+  logger?: Logger;
+  // Merge into the environment already at the output path instead of
+  // overwriting it, keeping what was added or adjusted in the Mockoon app
+  // (default: false)
+  merge?: boolean;
+}
+
+/**
+ * Removes every module loaded from a directory from the require cache
+ * @param dir The directory the modules were loaded from
+ */
+function forgetModules(dir: string): void {
+  const root = path.resolve(dir) + path.sep;
+  Object.keys(require.cache)
+    .filter((id) => id.startsWith(root))
+    .forEach((id) => delete require.cache[id]);
+}
+
+/**
+ * Describes how a route conflicts with an earlier one
+ * @param conflict The conflicting route
+ * @returns The description, starting with a verb
+ */
+function describeConflict(conflict: ConflictingRoute): string {
+  const { route, conflictsWith, kind } = conflict;
+  // A more specific route only needs to come first
+  const hint =
+    compareSpecificity(route.endpoint, conflictsWith.endpoint) < 0
+      ? ' (set "order" or use route sorting)'
+      : "";
+  return `${kind === "duplicate" ? "duplicates" : "overlaps"} ${withSource(
+    describeRoute(conflictsWith),
+    conflictsWith
+  )}, which is matched first${hint}`;
+}
+
+/**
+ * Builds the Mockoon config of one environment from the compiled files
+ * @param compiledDir The directory containing the compiled files
+ * @param environment The environment to build
+ * @param options The generation options
+ * @returns The Mockoon configuration
+ */
+async function buildConfig(
+  compiledDir: string,
+  environment: EnvironmentSource,
+  options: GenerateOptions
+): Promise<MockoonConfig> {
+  const {
+    logger = silentLogger,
+    sortRoutes = false,
+    strict = false,
+    profile,
+  } = options;
+
+  // Process global config
+  logger.info(
+    `Processing global config (${environment.file})${
+      profile ? ` with profile "${profile}"` : ""
+    }...`
+  );
+  let globalConfig = await processGlobalConfig(
+    compiledDir,
+    environment.file,
+    profile
+  );
+
+  // UUIDs left out of source files are derived within the environment
+  const namespace = createNamespace(globalConfig.uuid);
+
+  // Overlay files of the declared and active profiles aren't sources of their own
+  const profiles = overlayProfiles(globalConfig.profiles, profile);
+
+  // Process features
+  logger.info("Processing features...");
+  const features = await processFeatures(
+    compiledDir,
+    namespace,
+    globalConfig.features,
+    profile,
+    profiles
+  );
+  const { folders } = features;
+
+  // Process data
+  logger.info("Processing data...");
+  let databuckets = await processData(
+    compiledDir,
+    namespace,
+    globalConfig.databuckets,
+    profile,
+    profiles
+  );
+
+  // Process callbacks
+  logger.info("Processing callbacks...");
+  let callbacks = mergeCallbacks(
+    globalConfig.callbacks,
+    await processCallbacks(compiledDir, namespace, profile, profiles)
+  );
+
+  // Resolve imported databuckets and callbacks to their identifiers
+  const resolvedRoutes = await resolveReferences(features.routes, callbacks);
+
+  // Fill in Mockoon's defaults for the fields source files leave out
+  let routes: RouteConfig[];
+  ({ globalConfig, routes, callbacks } = normalizeDefaults(
+    globalConfig,
+    resolvedRoutes,
+    callbacks
+  ));
+
+  // Inline the fixture files referenced by bodies and databucket values
+  ({ routes, databuckets } = await resolveFixtures(
+    compiledDir,
+    routes,
+    databuckets
+  ));
+
+  // Resolve the files of FILE bodies against the source files declaring them
+  ({ routes, callbacks } = await resolveAssets(
+    options.sourceDir || options.srcDir,
+    routes,
+    callbacks
+  ));
+
+  // Validate the UUIDs and every field against the allowed values
+  logger.info("Validating configuration...");
+  validateSchema(globalConfig, folders, routes, databuckets, callbacks);
+
+  // Check that references resolve and identifiers are unique
+  logger.info("Checking references...");
+  const references = checkReferences(
+    globalConfig,
+    folders,
+    routes,
+    databuckets,
+    callbacks
+  );
+  if (references.issues.length > 0) {
+    throw new ValidationError(references.issues);
+  }
+  references.unusedDatabuckets.forEach((databucket) =>
+    logger.warn(
+      `Warning: ${withSource(
+        `databucket "${databucket.id}"`,
+        databucket
+      )} is not used by any response, callback or template`
+    )
+  );
+  references.unusedCallbacks.forEach((callback) =>
+    logger.warn(
+      `Warning: ${withSource(
+        `callback "${callback.id}"`,
+        callback
+      )} is not invoked by any response`
+    )
+  );
+
+  // Rule values Mockoon would only reject when a request comes in
+  logger.info("Checking rules...");
+  const ruleIssues = checkRules(routes, databuckets);
+  if (ruleIssues.length > 0) {
+    throw new ValidationError(ruleIssues);
+  }
+
+  // Parse the templates Mockoon renders, so mistakes fail the build
+  logger.info("Checking templates...");
+  const templateIssues = lintTemplates(routes, databuckets, callbacks);
+  if (templateIssues.length > 0) {
+    throw new ValidationError(templateIssues);
+  }
+
+  // Mockoon matches routes in array order
+  if (sortRoutes) {
+    logger.info("Sorting routes by specificity...");
+    routes = sortRoutesBySpecificity(routes);
+  }
+  // Routes declaring the same endpoint are never reached, or only for some methods
+  const conflicts = findConflictingRoutes(routes);
+  if (strict && conflicts.length > 0) {
+    throw new ValidationError(
+      conflicts.map((conflict) => ({
+        file: sourceOf(conflict.route),
+        path: describeRoute(conflict.route),
+        message: describeConflict(conflict),
+      }))
+    );
+  }
+  conflicts.forEach((conflict) =>
+    logger.warn(
+      `Warning: ${withSource(
+        describeRoute(conflict.route),
+        conflict.route
+      )} ${describeConflict(conflict)}`
+    )
+  );
+  // Shadowed routes reported as overlaps aren't warned about twice
+  findShadowedRoutes(routes)
+    .filter(
+      ({ route, shadowedBy }) =>
+        !conflicts.some(
+          (conflict) =>
+            conflict.route === route && conflict.conflictsWith === shadowedBy
+        )
+    )
+    .forEach(({ route, shadowedBy }) =>
+      logger.warn(
+        `Warning: ${describeRoute(route)} is shadowed by ${describeRoute(
+          shadowedBy
+        )}, which comes first (set "order" or use route sorting)`
+      )
+    );
+
+  // Generate the final config
+  logger.info("Generating final config...");
+  return generateConfig(globalConfig, folders, routes, databuckets, callbacks);
+}
+
+/**
+ * Runs a build against the compiled sources, compiling them first if needed
+ * @param options The generation options
+ * @param build Builds the result from the compiled directory
+ * @returns The result of the build
+ */
+async function withCompiledSources<T>(
+  options: GenerateOptions,
+  build: (compiledDir: string) => Promise<T>
+): Promise<T> {
+  const { srcDir, compile = true, logger = silentLogger } = options;
+
+  if (!compile) {
+    return build(srcDir);
+  }
+
+  // Compiled files go to a .tmp-* directory of this run, next to the source
+  // directory
+  const baseDir = path.dirname(path.resolve(srcDir));
+  const compiledDir = await compileTypeScript(srcDir, baseDir, logger);
+
+  try {
+    return await build(compiledDir);
+  } finally {
+    // Clean up temporary directory so the next run loads fresh modules
+    logger.info("Cleaning up temporary files...");
+    forgetModules(compiledDir);
+    await fs.remove(compiledDir);
+  }
+}
+
+/**
+ * Picks the environment generate() builds
+ * @param environments The environments of the source tree
+ * @param name The requested environment name, if any
+ * @returns The environment to build
+ */
+function selectEnvironment(
+  environments: EnvironmentSource[],
+  name?: string
+): EnvironmentSource {
+  let selected: EnvironmentSource | undefined;
+  if (name) {
+    selected = environments.find((environment) => environment.name === name);
+  } else if (environments.length === 1) {
+    selected = environments[0];
+  } else {
+    selected = environments.find(
+      (environment) => environment.name === DEFAULT_ENVIRONMENT
+    );
+  }
+
+  if (!selected) {
+    const names = environments.map((environment) => environment.name);
+    throw new GeneratorError(
+      name
+        ? `Environment "${name}" not found (available: ${names.join(", ")})`
+        : `Several environments found (${names.join(
+            ", "
+          )}), pass "environment" or use generateEnvironments()`
+    );
+  }
+  return selected;
+}
+
+/**
+ * Generates the Mockoon config from a source directory without writing it
+ * When the sources define several environments, the one named by the
+ * "environment" option (or the one defined by global.ts) is generated
+ * @param options The generation options
+ * @returns The Mockoon configuration
+ * @throws CompileError if the TypeScript sources fail to compile
+ * @throws MissingUUIDError if a configuration object has no UUID
+ * @throws ValidationError if a configuration object has invalid values
+ */
+export async function generate(
+  options: GenerateOptions
+): Promise<MockoonConfig> {
+  return withCompiledSources(options, (compiledDir) =>
+    buildConfig(
+      compiledDir,
+      selectEnvironment(findEnvironments(compiledDir), options.environment),
+      options
+    )
+  );
+}
+
+/**
+ * Generates the Mockoon configs of every environment in a source directory
+ * @param options The generation options
+ * @returns The config of each environment, the default environment first
+ * @throws CompileError if the TypeScript sources fail to compile
+ * @throws MissingUUIDError if a configuration object has no UUID
+ * @throws ValidationError if a configuration object has invalid values
+ */
+export async function generateEnvironments(
+  options: GenerateOptions
+): Promise<GeneratedEnvironment[]> {
+  const { logger = silentLogger } = options;
+
+  return withCompiledSources(options, async (compiledDir) => {
+    const results: GeneratedEnvironment[] = [];
+    for (const environment of findEnvironments(compiledDir)) {
+      logger.info(`Generating environment "${environment.name}"...`);
+      results.push({
+        name: environment.name,
+        config: await buildConfig(compiledDir, environment, options),
+      });
+    }
+    return results;
+  });
+}
+
+/**
+ * Builds the output path of an environment
+ * The default environment is written to outputPath, others to <name>.json
+ * in the same directory
+ * @param outputPath The output path of the default environment
+ * @param name The environment name
+ * @returns The environment's output path
+ */
+export function environmentOutputPath(
+  outputPath: string,
+  name: string
+): string {
+  if (name === DEFAULT_ENVIRONMENT) {
+    return outputPath;
+  }
+  return path.join(
+    path.dirname(outputPath),
+    `${name}${path.extname(outputPath)}`
+  );
+}
+
+/**
+ * Writes a generated Mockoon config to a file
+ * The files served by FILE bodies are copied to the assets directory next
+ * to it, so the output directory can be used on another machine
+ * With the merge option, an existing environment at the output path is
+ * updated instead of replaced
+ * @param config The Mockoon configuration
+ * @param outputPath The path to write the config to
+ * @param options The write options
+ */
+export async function write(
+  config: MockoonConfig,
+  outputPath: string,
+  options: WriteOptions = {}
+): Promise<void> {
+  const { logger = silentLogger, merge = false } = options;
+
+  // Create the output directory if it doesn't exist
+  await fs.ensureDir(path.dirname(outputPath));
+
+  // Copy the files of FILE bodies and point the config at the copies
+  const bundled = await bundleAssets(config, path.dirname(outputPath));
+  if (bundled.assets.length > 0) {
+    logger.info(
+      `Copied ${bundled.assets.length} asset(s) to ${path.join(
+        path.dirname(outputPath),
+        ASSETS_DIR
+      )}`
+    );
+  }
+
+  // Update the entities owned by the sources in the existing environment
+  let output = bundled.config;
+  if (merge && fs.existsSync(outputPath)) {
+    logger.info(`Merging into ${outputPath}...`);
+    const merged = mergeConfigs(await fs.readJson(outputPath), output);
+    merged.unmanaged.forEach((entity) =>
+      logger.warn(
+        `Warning: ${entity.kind} ${entity.name} (${entity.uuid}) is not defined by the sources, keeping it`
+      )
+    );
+    output = merged.config;
+  }
+
+  // Write the config to the output file
+  logger.info(`Writing config to ${outputPath}...`);
+  await fs.writeJson(outputPath, output, { spaces: 2 });
+
+  // Verify the file was written correctly
+  const fileStats = await fs.stat(outputPath);
+  logger.info(`Config file written successfully (${fileStats.size} bytes)`);
+}
@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for the Mockoon config generator
+ */
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import * as path from "path";
+import {
+  main,
+  watch,
+  diffConfig,
+  serveConfig,
+  importConfig,
+  importOpenApiSpec,
+} from "./main";
+import { environmentOutputPath } from "./api";
+import { DEFAULT_ENVIRONMENT } from "./processors/global-processor";
+
+// Parse command line arguments
+yargs(hideBin(process.argv))
+  .option("baseDir", {
+    alias: "b",
+    describe: "Base directory for all files",
+    default: "./mockoon-config",
+    type: "string",
+  })
+  .command(
+    "$0",
+    "Generate Mockoon config",
+    (command) =>
+      command
+        .option("openapi", {
+          describe:
+            "Also write an OpenAPI 3 document to this path (.json, .yaml or .yml)",
+          type: "string",
+        })
+        .option("sort-routes", {
+          describe:
+            "Sort routes so more specific endpoints are matched before generic ones",
+          default: false,
+          type: "boolean",
+        })
+        .option("strict", {
+          describe:
+            "Fail on duplicate and overlapping routes instead of warning",
+          default: false,
+          type: "boolean",
+        })
+        .option("profile", {
+          alias: "p",
+          describe:
+            "Merge the overlay files of this profile (e.g. global.<profile>.ts) onto the base files",
+          type: "string",
+        })
+        .option("merge-into", {
+          describe:
+            "Update an environment file edited in the Mockoon app instead of overwriting dist/config.json",
+          type: "string",
+        })
+        .option("watch", {
+          alias: "w",
+          describe: "Regenerate the config whenever a source file changes",
+          default: false,
+          type: "boolean",
+        }),
+    (argv) => {
+      const baseDir = argv.baseDir as string;
+      const configDir = path.join(baseDir, "src");
+      const outputPath = path.join(baseDir, "dist", "config.json");
+      const options = {
+        openApiPath: argv.openapi,
+        sortRoutes: argv.sortRoutes,
+        strict: argv.strict,
+        profile: argv.profile,
+        mergeInto: argv.mergeInto,
+      };
+
+      if (argv.watch) {
+        watch(configDir, outputPath, baseDir, options);
+      } else {
+        main(configDir, outputPath, baseDir, options);
+      }
+    }
+  )
+  .command(
+    "diff [file]",
+    "Compare the generated config with an existing config file",
+    (command) =>
+      command
+        .positional("file", {
+          describe:
+            "Path to the config to compare with (default: the environment's file in dist/)",
+          type: "string",
+        })
+        .option("environment", {
+          alias: "e",
+          describe: "Environment to compare",
+          default: DEFAULT_ENVIRONMENT,
+          type: "string",
+        })
+        .option("format", {
+          describe: "Output format",
+          choices: ["text", "json"],
+          default: "text",
+        })
+        .option("sort-routes", {
+          describe:
+            "Sort routes so more specific endpoints are matched before generic ones",
+          default: false,
+          type: "boolean",
+        })
+        .option("profile", {
+          alias: "p",
+          describe:
+            "Merge the overlay files of this profile (e.g. global.<profile>.ts) onto the base files",
+          type: "string",
+        }),
+    (argv) => {
+      const baseDir = argv.baseDir as string;
+      const configDir = path.join(baseDir, "src");
+      const previousPath =
+        argv.file ||
+        environmentOutputPath(
+          path.join(baseDir, "dist", "config.json"),
+          argv.environment
+        );
+
+      diffConfig(configDir, previousPath, {
+        environment: argv.environment,
+        format: argv.format as "text" | "json",
+        sortRoutes: argv.sortRoutes,
+        profile: argv.profile,
+      });
+    }
+  )
+  .command(
+    "serve",
+    "Serve the generated config for smoke tests, without the Mockoon CLI",
+    (command) =>
+      command
+        .option("environment", {
+          alias: "e",
+          describe: "Environment to serve",
+          default: DEFAULT_ENVIRONMENT,
+          type: "string",
+        })
+        .option("port", {
+          describe: "Port to listen on (default: the environment's port)",
+          type: "number",
+        })
+        .option("sort-routes", {
+          describe:
+            "Sort routes so more specific endpoints are matched before generic ones",
+          default: false,
+          type: "boolean",
+        })
+        .option("profile", {
+          alias: "p",
+          describe:
+            "Merge the overlay files of this profile (e.g. global.<profile>.ts) onto the base files",
+          type: "string",
+        }),
+    (argv) => {
+      const baseDir = argv.baseDir as string;
+      const configDir = path.join(baseDir, "src");
+
+      serveConfig(configDir, {
+        environment: argv.environment,
+        port: argv.port,
+        sortRoutes: argv.sortRoutes,
+        profile: argv.profile,
+      });
+    }
+  )
+  .command(
+    "import <file>",
+    "Generate TypeScript source files from an existing Mockoon environment",
+    (command) =>
+      command
+        .positional("file", {
+          describe: "Path to the Mockoon environment JSON file",
+          type: "string",
+        })
+        .option("force", {
+          alias: "f",
+          describe: "Write into the source directory even if it is not empty",
+          default: false,
+          type: "boolean",
+        }),
+    (argv) => {
+      const baseDir = argv.baseDir as string;
+      const configDir = path.join(baseDir, "src");
+
+      importConfig(argv.file as string, configDir, argv.force);
+    }
+  )
+  .command(
+    "openapi <spec>",
+    "Generate features and routes from an OpenAPI 3 specification",
+    (command) =>
+      command
+        .positional("spec", {
+          describe: "Path to the OpenAPI specification (JSON or YAML)",
+          type: "string",
+        })
+        .option("force", {
+          alias: "f",
+          describe: "Overwrite files that already exist",
+          default: false,
+          type: "boolean",
+        }),
+    (argv) => {
+      const baseDir = argv.baseDir as string;
+      const configDir = path.join(baseDir, "src");
+
+      importOpenApiSpec(argv.spec as string, configDir, argv.force);
+    }
+  )
+  .help().argv;
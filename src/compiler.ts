@@ -5,29 +5,21 @@ import * as ts from "typescript";
 import * as path from "path";
 import * as fs from "fs-extra";
 import { glob } from "glob";
+import { CompileError } from "./errors";
+import { Logger, consoleLogger } from "./logger";
+import { copyFixtures, isFixtureFile } from "./fixtures";
 
 /**
- * Compiles TypeScript files to JavaScript
+ * Builds the compiler options, merging in the config directory's tsconfig.json
  * @param configDir The directory containing the TypeScript files
- * @returns The path to the compiled JavaScript files
+ * @param outDir The directory to write the compiled files to
+ * @returns The compiler options
  */
-export async function compileTypeScript(
+function getCompilerOptions(
   configDir: string,
-  baseDir: string
-): Promise<string> {
-  console.log("Starting TypeScript compilation...");
-
-  // Clean up any previous temporary directory
-  const outDir = path.join(baseDir, ".tmp");
-  if (fs.existsSync(outDir)) {
-    console.log("Cleaning up previous temporary directory...");
-    await fs.remove(outDir);
-  }
-
-  // Create a fresh temporary output directory
-  await fs.ensureDir(outDir);
-  console.log(`Created temporary directory: ${outDir}`);
-
+  outDir: string,
+  logger: Logger
+): ts.CompilerOptions {
   // Read tsconfig.json if it exists, or use default options
   let compilerOptions: ts.CompilerOptions = {
     target: ts.ScriptTarget.ES2020,
@@ -39,7 +31,7 @@ export async function compileTypeScript(
 
   const tsconfigPath = path.join(configDir, "tsconfig.json");
   if (fs.existsSync(tsconfigPath)) {
-    console.log(`Found tsconfig.json at ${tsconfigPath}`);
+    logger.info(`Found tsconfig.json at ${tsconfigPath}`);
     // Clear require cache to ensure we get the latest version
     delete require.cache[require.resolve(tsconfigPath)];
     const tsconfig = require(tsconfigPath);
@@ -47,12 +39,71 @@ export async function compileTypeScript(
     compilerOptions.outDir = outDir; // Override outDir to use our temp directory
   }
 
+  return compilerOptions;
+}
+
+/**
+ * Formats TypeScript diagnostics with their file locations
+ * @param diagnostics The diagnostics to format
+ * @returns One message per diagnostic
+ */
+function formatDiagnostics(diagnostics: readonly ts.Diagnostic[]): string[] {
+  return diagnostics.map((diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(
+      diagnostic.messageText,
+      "\n"
+    );
+    if (diagnostic.file) {
+      const { line, character } =
+        diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start!);
+      return `${diagnostic.file.fileName} (${line + 1},${
+        character + 1
+      }): ${message}`;
+    }
+    return message;
+  });
+}
+
+/**
+ * Creates a temporary output directory for one compilation
+ * Every compilation gets its own directory, so concurrent builds of the same
+ * sources (e.g. parallel test workers, or a build next to watch mode) never
+ * remove each other's files
+ * @param baseDir The base directory, next to the sources so the compiled
+ * files resolve the same packages
+ * @returns The path to the new directory
+ */
+async function createOutDir(baseDir: string): Promise<string> {
+  await fs.ensureDir(baseDir);
+  return fs.mkdtemp(path.join(baseDir, ".tmp-"));
+}
+
+/**
+ * Compiles TypeScript files to JavaScript
+ * @param configDir The directory containing the TypeScript files
+ * @param baseDir The base directory holding the temporary output directories
+ * @param logger The logger for progress messages
+ * @returns The path to the compiled JavaScript files
+ */
+export async function compileTypeScript(
+  configDir: string,
+  baseDir: string,
+  logger: Logger = consoleLogger
+): Promise<string> {
+  logger.info("Starting TypeScript compilation...");
+
+  // Create a fresh temporary output directory
+  const outDir = await createOutDir(baseDir);
+  logger.info(`Created temporary directory: ${outDir}`);
+
+  const compilerOptions = getCompilerOptions(configDir, outDir, logger);
+
   // Find all TypeScript files
   const tsFiles = await glob(path.join(configDir, "**/*.ts"));
-  console.log(`Found ${tsFiles.length} TypeScript files to compile`);
+  logger.info(`Found ${tsFiles.length} TypeScript files to compile`);
 
   if (tsFiles.length === 0) {
-    throw new Error(`No TypeScript files found in ${configDir}`);
+    throw new CompileError([`No TypeScript files found in ${configDir}`]);
   }
 
   // Create program
@@ -67,28 +118,242 @@ export async function compileTypeScript(
     .concat(emitResult.diagnostics);
 
   if (allDiagnostics.length > 0) {
-    console.error("TypeScript compilation errors:");
-    allDiagnostics.forEach((diagnostic) => {
-      const message = ts.flattenDiagnosticMessageText(
-        diagnostic.messageText,
-        "\n"
-      );
-      if (diagnostic.file) {
-        const { line, character } =
-          diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start!);
-        console.error(
-          `${diagnostic.file.fileName} (${line + 1},${
-            character + 1
-          }): ${message}`
-        );
-      } else {
-        console.error(message);
-      }
-    });
-    throw new Error("TypeScript compilation failed");
+    await fs.remove(outDir);
+    throw new CompileError(formatDiagnostics(allDiagnostics));
   }
 
-  console.log("TypeScript compilation completed successfully");
-  console.log(`Compilation output directory: ${outDir}`);
+  // Fixtures are read relative to the compiled files
+  await copyFixtures(configDir, outDir);
+
+  logger.info("TypeScript compilation completed successfully");
+  logger.info(`Compilation output directory: ${outDir}`);
   return outDir;
 }
+
+/**
+ * Result of one rebuild in watch mode
+ */
+export interface WatchBuildResult {
+  // The directory containing the compiled files
+  outDir: string;
+  // The compiled JavaScript files written or removed during this rebuild
+  changedFiles: string[];
+  // Whether the rebuild finished without compilation errors
+  success: boolean;
+}
+
+/**
+ * Handle to a running TypeScript watch program
+ */
+export interface TypeScriptWatcher {
+  outDir: string;
+  close(): void;
+}
+
+/**
+ * Removes compiled modules, and every compiled module that requires them,
+ * from the require cache so the next require loads fresh values
+ * @param changedFiles The compiled files that changed
+ * @param outDir The directory containing the compiled files
+ */
+export function clearRequireCache(changedFiles: string[], outDir: string): void {
+  const root = path.resolve(outDir);
+  const stale = new Set(changedFiles.map((file) => path.resolve(file)));
+
+  // Modules that import a stale module hold on to its old exports
+  let found = true;
+  while (found) {
+    found = false;
+    for (const [id, cached] of Object.entries(require.cache)) {
+      if (!cached || stale.has(id) || !id.startsWith(root)) {
+        continue;
+      }
+      if (cached.children.some((child) => stale.has(child.id))) {
+        stale.add(id);
+        found = true;
+      }
+    }
+  }
+
+  stale.forEach((id) => delete require.cache[id]);
+}
+
+/**
+ * Starts a TypeScript watch program that recompiles changed files only
+ * @param configDir The directory containing the TypeScript files
+ * @param baseDir The base directory holding the temporary output directories
+ * @param onBuild Called after every build with the compiled files that changed
+ * @param logger The logger for progress messages and compilation errors
+ * @returns A handle to stop watching
+ */
+export async function watchTypeScript(
+  configDir: string,
+  baseDir: string,
+  onBuild: (result: WatchBuildResult) => void,
+  logger: Logger = consoleLogger
+): Promise<TypeScriptWatcher> {
+  // Start from a fresh temporary directory
+  const outDir = await createOutDir(baseDir);
+
+  await copyFixtures(configDir, outDir);
+
+  const compilerOptions = getCompilerOptions(configDir, outDir, logger);
+  const findSourceFiles = () => glob.sync(path.join(configDir, "**/*.ts"));
+  let rootFiles = findSourceFiles();
+
+  if (rootFiles.length === 0) {
+    throw new CompileError([`No TypeScript files found in ${configDir}`]);
+  }
+
+  // Compiled outputs per source file, used to clean up deleted sources
+  const outputsBySource = new Map<string, string[]>();
+  let pendingRemovals: string[] = [];
+  let lastBuildSucceeded = false;
+
+  const host = ts.createWatchCompilerHost(
+    rootFiles,
+    compilerOptions,
+    ts.sys,
+    ts.createEmitAndSemanticDiagnosticsBuilderProgram,
+    () => {
+      // Diagnostics are collected and reported once per build below
+    },
+    (diagnostic) => {
+      logger.info(ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+    }
+  );
+
+  host.afterProgramCreate = (builderProgram) => {
+    const changedFiles = [...pendingRemovals];
+    pendingRemovals = [];
+
+    // Emit only the files affected by the change
+    const emitResult = builderProgram.emit(
+      undefined,
+      (fileName, text, writeByteOrderMark, _onError, sourceFiles) => {
+        ts.sys.writeFile(fileName, text, writeByteOrderMark);
+        if (fileName.endsWith(".js")) {
+          changedFiles.push(fileName);
+          sourceFiles?.forEach((sourceFile) => {
+            const outputs = outputsBySource.get(sourceFile.fileName) || [];
+            if (!outputs.includes(fileName)) {
+              outputs.push(fileName);
+            }
+            outputsBySource.set(sourceFile.fileName, outputs);
+          });
+        }
+      }
+    );
+
+    const diagnostics = [
+      ...builderProgram.getConfigFileParsingDiagnostics(),
+      ...builderProgram.getOptionsDiagnostics(),
+      ...builderProgram.getGlobalDiagnostics(),
+      ...builderProgram.getSyntacticDiagnostics(),
+      ...builderProgram.getSemanticDiagnostics(),
+      ...emitResult.diagnostics,
+    ];
+
+    if (diagnostics.length > 0) {
+      logger.error("TypeScript compilation errors:");
+      formatDiagnostics(diagnostics).forEach((message) => logger.error(message));
+    }
+
+    lastBuildSucceeded = diagnostics.length === 0;
+    onBuild({ outDir, changedFiles, success: lastBuildSucceeded });
+  };
+
+  const watchProgram = ts.createWatchProgram(host);
+
+  // Fixtures are not part of the program, copy them and rebuild the config
+  const syncFixture = (fileName: string) => {
+    const target = path.join(
+      outDir,
+      path.relative(path.resolve(configDir), fileName)
+    );
+    if (fs.existsSync(fileName)) {
+      fs.copySync(fileName, target);
+    } else {
+      fs.removeSync(target);
+    }
+    onBuild({ outDir, changedFiles: [], success: lastBuildSucceeded });
+  };
+
+  // The directory watcher only reports added and removed files, so watch
+  // every fixture for changes
+  const fixtureWatchers = new Map<string, ts.FileWatcher>();
+  const watchFixtures = () => {
+    const fixtures = glob
+      .sync("**/*.{json,yaml,yml,csv}", {
+        cwd: configDir,
+        nocase: true,
+        absolute: true,
+      })
+      .filter(isFixtureFile);
+
+    for (const fixture of fixtures) {
+      if (!fixtureWatchers.has(fixture)) {
+        fixtureWatchers.set(
+          fixture,
+          ts.sys.watchFile!(fixture, () => syncFixture(fixture), 250)
+        );
+      }
+    }
+    for (const [fixture, watcher] of fixtureWatchers) {
+      if (!fixtures.includes(fixture)) {
+        watcher.close();
+        fixtureWatchers.delete(fixture);
+      }
+    }
+  };
+  watchFixtures();
+
+  // The root file list is fixed in the program, so pick up added and removed files
+  const directoryWatcher = ts.sys.watchDirectory!(
+    path.resolve(configDir),
+    (fileName) => {
+      // Fixtures were added or removed
+      if (isFixtureFile(fileName)) {
+        watchFixtures();
+        syncFixture(fileName);
+        return;
+      }
+
+      if (!fileName.endsWith(".ts")) {
+        return;
+      }
+      const nextRootFiles = findSourceFiles();
+      const removedFiles = rootFiles.filter(
+        (file) => !nextRootFiles.includes(file)
+      );
+      if (
+        removedFiles.length === 0 &&
+        nextRootFiles.length === rootFiles.length
+      ) {
+        return;
+      }
+
+      for (const removedFile of removedFiles) {
+        const outputs =
+          outputsBySource.get(path.resolve(removedFile).replace(/\\/g, "/")) ||
+          outputsBySource.get(removedFile) ||
+          [];
+        outputs.forEach((output) => fs.removeSync(output));
+        pendingRemovals.push(...outputs);
+      }
+
+      rootFiles = nextRootFiles;
+      watchProgram.updateRootFileNames(rootFiles);
+    },
+    true
+  );
+
+  return {
+    outDir,
+    close: () => {
+      fixtureWatchers.forEach((watcher) => watcher.close());
+      directoryWatcher.close();
+      watchProgram.close();
+    },
+  };
+}
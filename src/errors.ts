@@ -0,0 +1,59 @@
+/**
+ * Error classes thrown by the Mockoon config generator
+ */
+
+/**
+ * Base class for all errors thrown by the generator
+ */
+export class GeneratorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when the TypeScript sources fail to compile
+ */
+export class CompileError extends GeneratorError {
+  constructor(public readonly diagnostics: string[]) {
+    super(`TypeScript compilation failed:\n${diagnostics.join("\n")}`);
+  }
+}
+
+/**
+ * Thrown when a configuration object is missing its UUID
+ */
+export class MissingUUIDError extends GeneratorError {
+  constructor(public readonly location: string) {
+    super(`Missing UUID in ${location}`);
+  }
+}
+
+/**
+ * A problem found while validating the configuration
+ */
+export interface ValidationIssue {
+  // The source file the object was loaded from, relative to the source directory
+  file?: string;
+  // The path to the invalid value within the object (e.g. "responses[0].statusCode")
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when configuration objects have invalid values
+ * Holds every problem found, not only the first one
+ */
+export class ValidationError extends GeneratorError {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(
+      `Invalid configuration:\n${issues
+        .map(
+          ({ file, path, message }) =>
+            `  ${file ? `${file}: ` : ""}${path ? `${path}: ` : ""}${message}`
+        )
+        .join("\n")}`
+    );
+  }
+}
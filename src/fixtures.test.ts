@@ -0,0 +1,61 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture, parseCsv } from "./fixtures";
+
+describe("parseCsv", () => {
+  it("keys each row by the header row and converts cells", () => {
+    expect(parseCsv("id,name,active,score\n1,Ada,true,-2.5\n")).toEqual([
+      { id: 1, name: "Ada", active: true, score: -2.5 },
+    ]);
+  });
+
+  it("keeps numbers with a leading zero as strings", () => {
+    expect(parseCsv("code,zip,zero\n007,01234,0\n")).toEqual([
+      { code: "007", zip: "01234", zero: 0 },
+    ]);
+  });
+
+  it("reads quoted cells with commas, line breaks and doubled quotes", () => {
+    expect(
+      parseCsv('name,note\r\n"Lovelace, Ada","said ""hi""\nthen left"\r\n')
+    ).toEqual([{ name: "Lovelace, Ada", note: 'said "hi"\nthen left' }]);
+  });
+
+  it("skips blank lines and fills missing cells", () => {
+    expect(parseCsv("a,b\n\n1\n\n2,3")).toEqual([
+      { a: 1, b: "" },
+      { a: 2, b: 3 },
+    ]);
+  });
+});
+
+describe("loadFixture", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it("parses JSON, YAML and CSV files", async () => {
+    await fs.writeFile(path.join(dir, "users.json"), '[{"id": 1}]');
+    await fs.writeFile(path.join(dir, "users.yaml"), "- id: 1\n");
+    await fs.writeFile(path.join(dir, "users.CSV"), "id\n1\n");
+
+    for (const file of ["users.json", "users.yaml", "users.CSV"]) {
+      expect(await loadFixture(path.join(dir, file))).toEqual([{ id: 1 }]);
+    }
+  });
+
+  it("rejects other file types", async () => {
+    await fs.writeFile(path.join(dir, "users.txt"), "1");
+
+    await expect(loadFixture(path.join(dir, "users.txt"))).rejects.toThrow(
+      "Unsupported fixture type"
+    );
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * JSON, YAML and CSV fixture files next to the TypeScript sources
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import { glob } from "glob";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * Marks fixture references; Symbol.for so references created with another
+ * copy of the package are recognised too
+ */
+const FIXTURE = Symbol.for("mockoon-config-generator.fixture");
+
+/**
+ * File extensions of the fixtures the generator reads
+ */
+export const FIXTURE_EXTENSIONS = [".json", ".yaml", ".yml", ".csv"];
+
+/**
+ * A reference to a fixture file, replaced with its contents at build time
+ */
+export interface FixtureReference {
+  [FIXTURE]: string;
+}
+
+/**
+ * Refers to a fixture file to inline as a response body or databucket value
+ * JSON and YAML files are parsed, CSV files become an array of objects
+ * @param relativePath The path to the fixture, relative to the source file
+ * @returns A placeholder typed as the fixture's contents
+ */
+export function fixture<T = any>(relativePath: string): T {
+  const reference: FixtureReference = { [FIXTURE]: relativePath };
+  return reference as unknown as T;
+}
+
+/**
+ * Checks whether a value was created with fixture()
+ * @param value The value to check
+ * @returns True if the value refers to a fixture
+ */
+export function isFixture(value: unknown): value is FixtureReference {
+  return typeof value === "object" && value !== null && FIXTURE in value;
+}
+
+/**
+ * Gets the path a fixture reference points to
+ * @param reference The fixture reference
+ * @returns The path, relative to the source file
+ */
+export function fixturePath(reference: FixtureReference): string {
+  return reference[FIXTURE];
+}
+
+/**
+ * Checks whether a file is a fixture the generator reads
+ * @param fileName The file name
+ * @returns True for JSON, YAML and CSV files other than tsconfig.json
+ */
+export function isFixtureFile(fileName: string): boolean {
+  return (
+    FIXTURE_EXTENSIONS.includes(path.extname(fileName).toLowerCase()) &&
+    path.basename(fileName) !== "tsconfig.json"
+  );
+}
+
+/**
+ * Copies the fixture files of the source directory next to the compiled files
+ * @param configDir The directory containing the TypeScript files
+ * @param outDir The directory containing the compiled files
+ * @returns The copied files in the output directory
+ */
+export async function copyFixtures(
+  configDir: string,
+  outDir: string
+): Promise<string[]> {
+  const files = await glob("**/*.{json,yaml,yml,csv}", {
+    cwd: configDir,
+    nocase: true,
+  });
+
+  const copied: string[] = [];
+  for (const file of files.filter(isFixtureFile)) {
+    const target = path.join(outDir, file);
+    await fs.copy(path.join(configDir, file), target);
+    copied.push(target);
+  }
+  return copied;
+}
+
+/**
+ * Converts a CSV cell to a number or boolean where it clearly is one
+ * Numbers with a leading zero, such as codes or zip codes, stay strings
+ * @param cell The cell text
+ * @returns The converted value
+ */
+function convertCell(cell: string): string | number | boolean {
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(cell)) {
+    return Number(cell);
+  }
+  if (cell === "true" || cell === "false") {
+    return cell === "true";
+  }
+  return cell;
+}
+
+/**
+ * Parses CSV text into one object per row, keyed by the header row
+ * Quoted cells may contain commas, line breaks and doubled quotes
+ * @param text The CSV text
+ * @returns The rows
+ */
+export function parseCsv(text: string): Record<string, unknown>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // Treat \r\n as a single line break
+      if (char === "\r" && text[index + 1] === "\n") {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines don't make rows
+  const [header = [], ...records] = rows.filter(
+    (cells) => cells.length > 1 || cells[0] !== ""
+  );
+  return records.map((cells) =>
+    Object.fromEntries(
+      header.map((key, index) => [key.trim(), convertCell(cells[index] ?? "")])
+    )
+  );
+}
+
+/**
+ * Reads and parses a fixture file
+ * @param filePath The path to the fixture
+ * @returns The parsed contents
+ */
+export async function loadFixture(filePath: string): Promise<unknown> {
+  const content = await fs.readFile(filePath, "utf8");
+
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".json":
+      return JSON.parse(content);
+    case ".yaml":
+    case ".yml":
+      return parseYaml(content);
+    case ".csv":
+      return parseCsv(content);
+    default:
+      throw new Error(
+        `Unsupported fixture type, expected one of ${FIXTURE_EXTENSIONS.join(
+          ", "
+        )}`
+      );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Copy the files served by FILE bodies next to the generated config
+ */
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { MockoonConfig } from "../types";
+import { isTemplatedPath } from "../processors/asset-resolver";
+
+/**
+ * Directory the assets are copied to, relative to the config file
+ */
+export const ASSETS_DIR = "assets";
+
+/**
+ * Result of bundling the assets of a config
+ */
+export interface BundledAssets {
+  // The config with file paths pointing into the assets directory
+  config: MockoonConfig;
+  // The copied files in the assets directory
+  assets: string[];
+}
+
+/**
+ * Builds the path of an asset relative to the config file
+ * Files under the config's parent directory keep their relative path, other
+ * files get a hash of their location so names can't collide
+ * @param filePath The absolute path to the file
+ * @param outputDir The directory the config is written to
+ * @returns The asset path, with forward slashes
+ */
+function assetPath(filePath: string, outputDir: string): string {
+  const relative = path.relative(path.dirname(outputDir), filePath);
+  const name =
+    relative.startsWith("..") || path.isAbsolute(relative)
+      ? path.join(
+          "external",
+          `${crypto
+            .createHash("sha1")
+            .update(filePath)
+            .digest("hex")
+            .slice(0, 8)}-${path.basename(filePath)}`
+        )
+      : relative;
+  return path.join(ASSETS_DIR, name).replace(/\\/g, "/");
+}
+
+/**
+ * Copies the files of FILE responses and callbacks into the assets directory
+ * next to the config and points their file paths there
+ * Only absolute paths, as resolved by generate(), are bundled
+ * @param config The Mockoon configuration
+ * @param outputDir The directory the config is written to
+ * @param copy Whether to copy the files, or only rewrite the file paths
+ * @returns The config with rewritten file paths and the copied files
+ */
+export async function bundleAssets(
+  config: MockoonConfig,
+  outputDir: string,
+  copy = true
+): Promise<BundledAssets> {
+  const copied = new Map<string, string>();
+
+  const bundle = async (filePath: string | undefined) => {
+    if (
+      !filePath ||
+      isTemplatedPath(filePath) ||
+      !path.isAbsolute(filePath) ||
+      !fs.existsSync(filePath)
+    ) {
+      return filePath;
+    }
+
+    let asset = copied.get(filePath);
+    if (!asset) {
+      asset = assetPath(filePath, outputDir);
+      if (copy) {
+        await fs.copy(filePath, path.join(outputDir, asset));
+      }
+      copied.set(filePath, asset);
+    }
+    return asset;
+  };
+
+  const routes = [];
+  for (const route of config.routes) {
+    const responses = [];
+    for (const response of route.responses || []) {
+      responses.push(
+        response.bodyType === "FILE"
+          ? { ...response, filePath: (await bundle(response.filePath)) || "" }
+          : response
+      );
+    }
+    routes.push(route.responses ? { ...route, responses } : route);
+  }
+
+  const callbacks = [];
+  for (const callback of config.callbacks || []) {
+    callbacks.push(
+      callback.bodyType === "FILE"
+        ? { ...callback, filePath: await bundle(callback.filePath) }
+        : callback
+    );
+  }
+
+  return {
+    config: {
+      ...config,
+      routes,
+      ...(config.callbacks ? { callbacks } : {}),
+    },
+    assets: [...copied.values()].map((asset) => path.join(outputDir, asset)),
+  };
+}
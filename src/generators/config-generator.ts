@@ -2,6 +2,7 @@
  * Generate the final Mockoon configuration
  */
 import {
+  Callback,
   GlobalConfig,
   FolderConfig,
   RouteConfig,
@@ -9,6 +10,7 @@ import {
   MockoonConfig,
   FolderChild,
 } from "../types";
+import { serializeValue } from "../templates";
 
 /**
  * Process routes to ensure response bodies are in the correct format
@@ -20,6 +22,9 @@ function processRoutes(routes: RouteConfig[]): RouteConfig[] {
     // Create a deep copy of the route to avoid modifying the original
     const processedRoute = { ...route };
 
+    // The order only affects how the generator sorts routes
+    delete processedRoute.order;
+
     // Process each response in the route
     if (processedRoute.responses) {
       processedRoute.responses = processedRoute.responses.map((response) => {
@@ -32,7 +37,7 @@ function processRoutes(routes: RouteConfig[]): RouteConfig[] {
           typeof processedResponse.body === "object" &&
           processedResponse.bodyType === "INLINE"
         ) {
-          processedResponse.body = JSON.stringify(processedResponse.body);
+          processedResponse.body = serializeValue(processedResponse.body);
         }
 
         return processedResponse;
@@ -43,36 +48,91 @@ function processRoutes(routes: RouteConfig[]): RouteConfig[] {
   });
 }
 
+/**
+ * Process folders to remove generator-only fields
+ * @param folders The folders array to process
+ * @returns The processed folders array
+ */
+function processFolders(folders: FolderConfig[]): FolderConfig[] {
+  return folders.map((folder) => {
+    const processedFolder = { ...folder };
+    delete processedFolder.order;
+    return processedFolder;
+  });
+}
+
+/**
+ * Process databuckets so structured values become JSON strings
+ * @param databuckets The databuckets array to process
+ * @returns The processed databuckets array
+ */
+function processDatabuckets(
+  databuckets: DatabucketConfig<unknown>[]
+): DatabucketConfig[] {
+  return databuckets.map((databucket) => ({
+    ...databucket,
+    value:
+      typeof databucket.value === "string"
+        ? databucket.value
+        : serializeValue(databucket.value),
+  }));
+}
+
 /**
  * Combines all processed components into a single Mockoon config
  * @param globalConfig The global configuration object
  * @param folders The folders array
  * @param routes The routes array
  * @param databuckets The databuckets array
+ * @param callbacks The inline and file callbacks
  * @returns The final Mockoon configuration
  */
 export function generateConfig(
   globalConfig: GlobalConfig,
   folders: FolderConfig[],
   routes: RouteConfig[],
-  databuckets: DatabucketConfig[]
+  databuckets: DatabucketConfig<unknown>[],
+  callbacks: Callback[]
 ): MockoonConfig {
-  // Create root children array (references to top-level folders)
-  const rootChildren: FolderChild[] = folders.map((folder) => ({
-    type: "folder",
-    uuid: folder.uuid,
-  }));
+  // Routes and subfolders are referenced from their parent folder's children
+  const childUuids = new Set(
+    folders.flatMap((folder) => folder.children.map((child) => child.uuid))
+  );
+
+  // Create root children array (references to top-level folders and routes)
+  const rootChildren: FolderChild[] = [
+    ...folders
+      .filter((folder) => !childUuids.has(folder.uuid))
+      .map((folder) => ({
+        type: "folder" as const,
+        uuid: folder.uuid,
+      })),
+    ...routes
+      .filter((route) => !childUuids.has(route.uuid))
+      .map((route) => ({
+        type: "route" as const,
+        uuid: route.uuid,
+      })),
+  ];
 
   // Process routes to ensure response bodies are in the correct format
   const processedRoutes = processRoutes(routes);
 
+  // Environment filters and profiles only affect which sources the generator
+  // reads
+  const environment = { ...globalConfig };
+  delete environment.features;
+  delete environment.databuckets;
+  delete environment.profiles;
+
   // Combine all components into the final config
   const config = {
-    ...globalConfig,
-    folders,
+    ...environment,
+    folders: processFolders(folders),
     routes: processedRoutes,
-    data: databuckets,
+    data: processDatabuckets(databuckets),
     rootChildren,
+    callbacks,
   };
 
   return config;
@@ -0,0 +1,194 @@
+import { MockoonConfig, ResponseConfig, RouteConfig } from "../types";
+import { mergeConfigs } from "./config-merger";
+
+/**
+ * Builds a response
+ * @param uuid The response UUID
+ * @param fields The other fields
+ * @returns The response
+ */
+function response(
+  uuid: string,
+  fields: Partial<ResponseConfig> = {}
+): ResponseConfig {
+  return {
+    uuid,
+    label: uuid,
+    statusCode: 200,
+    latency: 0,
+    default: false,
+    ...fields,
+  } as ResponseConfig;
+}
+
+/**
+ * Builds a GET route
+ * @param uuid The route UUID
+ * @param responses The route responses
+ * @returns The route
+ */
+function route(uuid: string, responses: ResponseConfig[]): RouteConfig {
+  return {
+    uuid,
+    type: "http",
+    method: "get",
+    endpoint: uuid,
+    responses,
+  } as RouteConfig;
+}
+
+/**
+ * Builds an environment with its routes at the root
+ * @param routes The routes
+ * @param fields The other fields
+ * @returns The environment
+ */
+function environment(
+  routes: RouteConfig[],
+  fields: Partial<MockoonConfig> = {}
+): MockoonConfig {
+  return {
+    uuid: "environment",
+    name: "Test",
+    latency: 0,
+    port: 3000,
+    folders: [],
+    routes,
+    data: [],
+    rootChildren: routes.map(({ uuid }) => ({ type: "route", uuid })),
+    ...fields,
+  } as MockoonConfig;
+}
+
+describe("mergeConfigs", () => {
+  it("updates the entities the sources define and keeps the others", () => {
+    const existing = environment(
+      [
+        route("users", [response("users-ok", { statusCode: 500 })]),
+        route("added-in-app", [response("app-ok")]),
+      ],
+      { data: [{ uuid: "bucket", id: "b", name: "b" } as never] }
+    );
+    const generated = environment([route("users", [response("users-ok")])], {
+      port: 4000,
+    });
+
+    const { config, unmanaged } = mergeConfigs(existing, generated);
+
+    expect(config.port).toBe(4000);
+    expect(config.routes.map(({ uuid }) => uuid)).toEqual([
+      "users",
+      "added-in-app",
+    ]);
+    expect(config.routes[0].responses[0].statusCode).toBe(200);
+    expect(config.rootChildren.map(({ uuid }) => uuid)).toEqual([
+      "users",
+      "added-in-app",
+    ]);
+    expect(unmanaged).toEqual([
+      { kind: "route", uuid: "added-in-app", name: "GET /added-in-app" },
+      { kind: "databucket", uuid: "bucket", name: '"b"' },
+    ]);
+  });
+
+  it("keeps the latencies set in the app unless the sources set one", () => {
+    const existing = environment(
+      [route("users", [response("a", { latency: 50 }), response("b")])],
+      { latency: 300 }
+    );
+
+    const unset = mergeConfigs(
+      existing,
+      environment([route("users", [response("a"), response("b")])])
+    ).config;
+    expect(unset.latency).toBe(300);
+    expect(unset.routes[0].responses[0].latency).toBe(50);
+
+    const set = mergeConfigs(
+      existing,
+      environment(
+        [route("users", [response("a", { latency: 20 }), response("b")])],
+        { latency: 10 }
+      )
+    ).config;
+    expect(set.latency).toBe(10);
+    expect(set.routes[0].responses[0].latency).toBe(20);
+  });
+
+  it("keeps the response order and default response set in the app", () => {
+    const existing = environment([
+      route("users", [
+        response("b", { default: true }),
+        response("a"),
+        response("removed"),
+      ]),
+    ]);
+    const generated = environment([
+      route("users", [
+        response("a", { default: true }),
+        response("b"),
+        response("c"),
+      ]),
+    ]);
+
+    const { config, unmanaged } = mergeConfigs(existing, generated);
+
+    expect(
+      config.routes[0].responses.map(
+        ({ uuid, default: isDefault }) => `${uuid}:${isDefault}`
+      )
+    ).toEqual(["b:true", "a:false", "removed:false", "c:false"]);
+    expect(unmanaged).toEqual([
+      { kind: "response", uuid: "removed", name: 'GET /users "removed"' },
+    ]);
+  });
+
+  it("lets the sources pick another default response than the first", () => {
+    const existing = environment([
+      route("users", [response("a", { default: true }), response("b")]),
+    ]);
+    const generated = environment([
+      route("users", [response("a"), response("b", { default: true })]),
+    ]);
+
+    const { config } = mergeConfigs(existing, generated);
+
+    expect(
+      config.routes[0].responses.map(({ default: isDefault }) => isDefault)
+    ).toEqual([false, true]);
+  });
+
+  it("keeps folder children added in the app", () => {
+    const existing = environment([route("users", []), route("app", [])], {
+      folders: [
+        {
+          uuid: "folder",
+          name: "Users",
+          children: [
+            { type: "route", uuid: "app" },
+            { type: "route", uuid: "users" },
+          ],
+        },
+      ],
+      rootChildren: [{ type: "folder", uuid: "folder" }],
+    });
+    const generated = environment([route("users", [])], {
+      folders: [
+        {
+          uuid: "folder",
+          name: "Users",
+          children: [{ type: "route", uuid: "users" }],
+        },
+      ],
+      rootChildren: [{ type: "folder", uuid: "folder" }],
+    });
+
+    const { config } = mergeConfigs(existing, generated);
+
+    expect(config.folders[0].children.map(({ uuid }) => uuid)).toEqual([
+      "users",
+      "app",
+    ]);
+    expect(config.rootChildren).toEqual([{ type: "folder", uuid: "folder" }]);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Merge a generated config into an environment edited in the Mockoon app
+ */
+import {
+  FolderChild,
+  MockoonConfig,
+  ResponseConfig,
+  RouteConfig,
+} from "../types";
+import { EntityKind } from "../analyzers/config-diff";
+import { describeRoute } from "../analyzers/routes";
+
+/**
+ * An entity of the existing environment that the sources don't define
+ */
+export interface UnmanagedEntity {
+  kind: Exclude<EntityKind, "environment">;
+  uuid: string;
+  // Readable name of the entity, e.g. 'GET /users' or '"users"'
+  name: string;
+}
+
+/**
+ * Result of merging a generated config into an existing environment
+ */
+export interface MergedConfig {
+  config: MockoonConfig;
+  // Entities kept from the existing environment that are not in the sources
+  unmanaged: UnmanagedEntity[];
+}
+
+/**
+ * Fields adjusted in the Mockoon app, with the value the generator fills in
+ * when the sources leave them out
+ */
+const APP_FIELDS = {
+  environment: { latency: 0 },
+  response: { latency: 0 },
+};
+
+/**
+ * Merges a generated entity onto its existing version
+ * Fields the generator doesn't set are kept, and so are the given app fields
+ * while the generated value is the one the sources get when they leave the
+ * field out
+ * @param existing The entity in the existing environment
+ * @param generated The entity generated from the sources
+ * @param appFields The app fields with their value when left out
+ * @returns The merged entity
+ */
+function mergeEntity<T extends object>(
+  existing: T,
+  generated: T,
+  appFields: Record<string, unknown> = {}
+): T {
+  const merged = { ...existing, ...generated } as Record<string, unknown>;
+  for (const [field, unset] of Object.entries(appFields)) {
+    const value = (generated as Record<string, unknown>)[field];
+    if (field in existing && (value === undefined || value === unset)) {
+      merged[field] = (existing as Record<string, unknown>)[field];
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Merges lists of entities matched by UUID
+ * Generated entities come first, in their generated order, followed by the
+ * existing entities the sources don't define
+ * @param existing The entities of the existing environment
+ * @param generated The entities generated from the sources
+ * @param merge Merges a generated entity onto its existing version
+ * @returns The merged entities and the existing ones left unmanaged
+ */
+function mergeEntities<T extends { uuid: string }>(
+  existing: T[],
+  generated: T[],
+  merge: (existing: T, generated: T) => T = mergeEntity
+): { merged: T[]; unmanaged: T[] } {
+  const existingByUuid = new Map(
+    existing.map((entity) => [entity.uuid, entity])
+  );
+  const generatedUuids = new Set(generated.map((entity) => entity.uuid));
+
+  const unmanaged = existing.filter(
+    (entity) => !generatedUuids.has(entity.uuid)
+  );
+  const merged = generated.map((entity) => {
+    const previous = existingByUuid.get(entity.uuid);
+    return previous ? merge(previous, entity) : entity;
+  });
+
+  return { merged: [...merged, ...unmanaged], unmanaged };
+}
+
+/**
+ * Merges the responses of a route, keeping the order set in the Mockoon app
+ * Responses new in the sources are added after the existing ones
+ * The default response set in the app is kept unless the sources mark
+ * another response than the first, which is the default they get when they
+ * mark none
+ * @param existing The route in the existing environment
+ * @param generated The route generated from the sources
+ * @param unmanaged Receives the responses the sources don't define
+ * @returns The merged route
+ */
+function mergeRoute(
+  existing: RouteConfig,
+  generated: RouteConfig,
+  unmanaged: UnmanagedEntity[]
+): RouteConfig {
+  const generatedResponses = new Map(
+    (generated.responses || []).map((response) => [response.uuid, response])
+  );
+  const existingUuids = new Set(
+    (existing.responses || []).map((response) => response.uuid)
+  );
+  const keepAppDefault =
+    !(generated.responses || []).some(
+      (response, index) => index > 0 && response.default
+    ) && (existing.responses || []).some((response) => response.default);
+
+  const responses: ResponseConfig[] = [];
+  (existing.responses || []).forEach((response, index) => {
+    const source = generatedResponses.get(response.uuid);
+    if (source) {
+      const merged = mergeEntity(response, source, APP_FIELDS.response);
+      responses.push(
+        keepAppDefault ? { ...merged, default: response.default } : merged
+      );
+      return;
+    }
+    responses.push(response);
+    unmanaged.push({
+      kind: "response",
+      uuid: response.uuid,
+      name: `${describeRoute(existing)} ${
+        response.label ? JSON.stringify(response.label) : `#${index}`
+      }`,
+    });
+  });
+  responses.push(
+    ...(generated.responses || [])
+      .filter((response) => !existingUuids.has(response.uuid))
+      .map((response) =>
+        keepAppDefault ? { ...response, default: false } : response
+      )
+  );
+
+  return { ...mergeEntity(existing, generated), responses };
+}
+
+/**
+ * Merges a generated config into an existing Mockoon environment
+ * Folders, routes, responses, databuckets and callbacks are matched by UUID.
+ * The sources own the entities they define, except for the fields adjusted
+ * in the app (latencies, the default response and the order of responses)
+ * that the sources leave out.
+ * Entities the sources don't define are kept and reported as unmanaged.
+ * @param existing The existing environment
+ * @param generated The config generated from the sources
+ * @returns The merged config and the entities left unmanaged
+ */
+export function mergeConfigs(
+  existing: MockoonConfig,
+  generated: MockoonConfig
+): MergedConfig {
+  const unmanaged: UnmanagedEntity[] = [];
+
+  const routes = mergeEntities(
+    existing.routes || [],
+    generated.routes || [],
+    (route, source) => mergeRoute(route, source, unmanaged)
+  );
+  const folders = mergeEntities(
+    existing.folders || [],
+    generated.folders || []
+  );
+  const data = mergeEntities(existing.data || [], generated.data || []);
+  const callbacks = mergeEntities(
+    existing.callbacks || [],
+    generated.callbacks || []
+  );
+
+  unmanaged.push(
+    ...folders.unmanaged.map((folder) => ({
+      kind: "folder" as const,
+      uuid: folder.uuid,
+      name: JSON.stringify(folder.name),
+    })),
+    ...routes.unmanaged.map((route) => ({
+      kind: "route" as const,
+      uuid: route.uuid,
+      name: describeRoute(route),
+    })),
+    ...data.unmanaged.map((databucket) => ({
+      kind: "databucket" as const,
+      uuid: databucket.uuid,
+      name: JSON.stringify(databucket.id || databucket.name),
+    })),
+    ...callbacks.unmanaged.map((callback) => ({
+      kind: "callback" as const,
+      uuid: callback.uuid,
+      name: JSON.stringify(callback.id || callback.name),
+    }))
+  );
+
+  // The tree comes from the sources, unmanaged items stay where they were
+  const managed = new Set([
+    ...(generated.folders || []).map((folder) => folder.uuid),
+    ...(generated.routes || []).map((route) => route.uuid),
+  ]);
+  const unmanagedChildren = (children: FolderChild[]) =>
+    children.filter((child) => !managed.has(child.uuid));
+
+  const mergedFolders = folders.merged.map((folder) => {
+    const previous = (existing.folders || []).find(
+      (existingFolder) => existingFolder.uuid === folder.uuid
+    );
+    if (!managed.has(folder.uuid)) {
+      return { ...folder, children: unmanagedChildren(folder.children) };
+    }
+    return previous
+      ? {
+          ...folder,
+          children: [
+            ...folder.children,
+            ...unmanagedChildren(previous.children),
+          ],
+        }
+      : folder;
+  });
+
+  return {
+    config: {
+      ...mergeEntity(existing, generated, APP_FIELDS.environment),
+      folders: mergedFolders,
+      routes: routes.merged,
+      data: data.merged,
+      rootChildren: [
+        ...generated.rootChildren,
+        ...unmanagedChildren(existing.rootChildren || []),
+      ],
+      ...(callbacks.merged.length > 0 ? { callbacks: callbacks.merged } : {}),
+    },
+    unmanaged,
+  };
+}
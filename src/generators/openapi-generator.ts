@@ -0,0 +1,352 @@
+/**
+ * Generate an OpenAPI 3 document from the final Mockoon configuration
+ */
+import { FolderConfig, MockoonConfig, ResponseConfig, RouteConfig } from "../types";
+
+/**
+ * JSON schema object used in the generated document
+ */
+export type OpenApiSchema = Record<string, any>;
+
+/**
+ * OpenAPI 3 document produced by the generator
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string };
+  servers: { url: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Record<string, any>>;
+}
+
+/**
+ * Methods that OpenAPI path items can describe
+ */
+const OPENAPI_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+];
+
+/**
+ * Infers a JSON schema from an example value
+ * @param value The example value
+ * @returns The inferred schema
+ */
+export function inferSchema(value: unknown): OpenApiSchema {
+  if (value === null || value === undefined) {
+    return { nullable: true };
+  }
+
+  if (Array.isArray(value)) {
+    const itemSchemas = value.map(inferSchema);
+    return {
+      type: "array",
+      items: itemSchemas.length ? itemSchemas.reduce(mergeSchemas) : {},
+    };
+  }
+
+  switch (typeof value) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "object": {
+      const properties: Record<string, OpenApiSchema> = {};
+      for (const [key, propertyValue] of Object.entries(value as object)) {
+        properties[key] = inferSchema(propertyValue);
+      }
+      const required = Object.keys(properties);
+      return required.length
+        ? { type: "object", properties, required }
+        : { type: "object" };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Merges two inferred schemas, used for the items of an array
+ * Properties missing from one side are no longer required
+ * @param left The first schema
+ * @param right The second schema
+ * @returns The merged schema
+ */
+function mergeSchemas(left: OpenApiSchema, right: OpenApiSchema): OpenApiSchema {
+  if (left.type !== right.type) {
+    if (left.type === undefined && left.nullable) {
+      return { ...right, nullable: true };
+    }
+    if (right.type === undefined && right.nullable) {
+      return { ...left, nullable: true };
+    }
+    if (left.type === "integer" && right.type === "number") {
+      return right;
+    }
+    if (left.type === "number" && right.type === "integer") {
+      return left;
+    }
+    return { oneOf: [left, right] };
+  }
+
+  if (left.type === "object" && (left.properties || right.properties)) {
+    const properties: Record<string, OpenApiSchema> = { ...left.properties };
+    for (const [key, schema] of Object.entries<OpenApiSchema>(
+      right.properties || {}
+    )) {
+      properties[key] = properties[key]
+        ? mergeSchemas(properties[key], schema)
+        : schema;
+    }
+    const rightRequired = new Set<string>(right.required || []);
+    const required = (left.required || []).filter((key: string) =>
+      rightRequired.has(key)
+    );
+    return required.length
+      ? { type: "object", properties, required }
+      : { type: "object", properties };
+  }
+
+  if (left.type === "array") {
+    return { type: "array", items: mergeSchemas(left.items, right.items) };
+  }
+
+  return left;
+}
+
+/**
+ * Joins the endpoint prefix and a route endpoint into an OpenAPI path
+ * @param endpointPrefix The environment's endpoint prefix
+ * @param endpoint The route endpoint
+ * @returns The OpenAPI path and its path parameter names
+ */
+function toOpenApiPath(
+  endpointPrefix: string,
+  endpoint: string
+): { path: string; parameters: string[] } {
+  const parameters: string[] = [];
+  const segments = [endpointPrefix, endpoint]
+    .join("/")
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+        parameters.push(name);
+        return `{${name}}`;
+      })
+    );
+  return { path: `/${segments.join("/")}`, parameters };
+}
+
+/**
+ * Finds the content type of a response from its headers or the global headers
+ * @param response The response
+ * @param config The Mockoon configuration
+ * @returns The content type
+ */
+function contentTypeOf(response: ResponseConfig, config: MockoonConfig): string {
+  const header = [...(response.headers || []), ...(config.headers || [])].find(
+    (item) => item.key.toLowerCase() === "content-type"
+  );
+  return (header?.value || "application/json").split(";")[0].trim();
+}
+
+/**
+ * Builds the OpenAPI media type object for an INLINE response body
+ * @param response The response
+ * @param contentType The response content type
+ * @returns The media type object, or undefined if the body cannot be described
+ */
+function mediaTypeOf(
+  response: ResponseConfig,
+  contentType: string
+): Record<string, any> | undefined {
+  if (response.bodyType !== "INLINE" || response.body === "") {
+    return undefined;
+  }
+
+  const body =
+    typeof response.body === "string" ? response.body : JSON.stringify(response.body);
+
+  if (!/json/i.test(contentType)) {
+    return { schema: { type: "string" }, example: body };
+  }
+
+  try {
+    const example = JSON.parse(body);
+    return { schema: inferSchema(example), example };
+  } catch {
+    // Templated bodies are not valid JSON until Mockoon renders them
+    return undefined;
+  }
+}
+
+/**
+ * Builds the OpenAPI responses object of a route
+ * Responses sharing a status code become named examples of the same response
+ * @param route The route
+ * @param config The Mockoon configuration
+ * @returns The responses object
+ */
+function buildResponses(
+  route: RouteConfig,
+  config: MockoonConfig
+): Record<string, any> {
+  const responses: Record<string, any> = {};
+
+  for (const response of route.responses) {
+    const key = String(response.statusCode);
+    const contentType = contentTypeOf(response, config);
+    const mediaType = mediaTypeOf(response, contentType);
+    const existing = responses[key];
+
+    if (!existing) {
+      responses[key] = {
+        description: response.label || `${response.statusCode} response`,
+        ...(mediaType ? { content: { [contentType]: mediaType } } : {}),
+      };
+      continue;
+    }
+
+    // Fold additional responses into named examples of the first one
+    const existingMedia = existing.content?.[contentType];
+    if (!mediaType) {
+      continue;
+    }
+    if (!existingMedia) {
+      existing.content = { ...existing.content, [contentType]: mediaType };
+      continue;
+    }
+    if (existingMedia.example !== undefined) {
+      existingMedia.examples = {
+        [existing.description]: { value: existingMedia.example },
+      };
+      delete existingMedia.example;
+    }
+    existingMedia.examples = existingMedia.examples || {};
+    existingMedia.examples[response.label || response.uuid] = {
+      value: mediaType.example,
+    };
+    existingMedia.schema = mergeSchemas(existingMedia.schema, mediaType.schema);
+  }
+
+  return responses;
+}
+
+/**
+ * Lists the operations a route describes as method/endpoint pairs
+ * CRUD routes expand to the operations Mockoon serves for them
+ * @param route The route
+ * @returns The method and endpoint of each operation
+ */
+function operationsOf(route: RouteConfig): { method: string; endpoint: string }[] {
+  if (route.type === "ws") {
+    return [];
+  }
+
+  if (route.type === "crud") {
+    const itemEndpoint = `${route.endpoint}/:id`;
+    return [
+      { method: "get", endpoint: route.endpoint },
+      { method: "post", endpoint: route.endpoint },
+      { method: "get", endpoint: itemEndpoint },
+      { method: "put", endpoint: itemEndpoint },
+      { method: "patch", endpoint: itemEndpoint },
+      { method: "delete", endpoint: itemEndpoint },
+    ];
+  }
+
+  if (route.method === "all") {
+    return OPENAPI_METHODS.map((method) => ({
+      method,
+      endpoint: route.endpoint,
+    }));
+  }
+
+  return OPENAPI_METHODS.includes(route.method)
+    ? [{ method: route.method, endpoint: route.endpoint }]
+    : [];
+}
+
+/**
+ * Maps each route UUID to the name of the folder that contains it
+ * @param folders The folders of the configuration
+ * @returns The folder name for each route UUID
+ */
+function folderNamesByRoute(folders: FolderConfig[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const folder of folders) {
+    for (const child of folder.children) {
+      if (child.type === "route") {
+        names.set(child.uuid, folder.name);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Generates an OpenAPI 3 document describing the mock API
+ * @param config The final Mockoon configuration
+ * @returns The OpenAPI document
+ */
+export function generateOpenApi(config: MockoonConfig): OpenApiDocument {
+  const hostname = config.hostname || "localhost";
+  const protocol = config.tlsOptions?.enabled ? "https" : "http";
+  const folderNames = folderNamesByRoute(config.folders);
+  const tags = new Set<string>();
+
+  const document: OpenApiDocument = {
+    openapi: "3.0.3",
+    info: { title: config.name, version: "1.0.0" },
+    servers: [{ url: `${protocol}://${hostname}:${config.port}` }],
+    tags: [],
+    paths: {},
+  };
+
+  for (const route of config.routes) {
+    const tag = folderNames.get(route.uuid);
+
+    for (const { method, endpoint } of operationsOf(route)) {
+      const { path, parameters } = toOpenApiPath(config.endpointPrefix, endpoint);
+      const pathItem = (document.paths[path] = document.paths[path] || {});
+
+      // Mockoon serves the first matching route, so keep the first one only
+      if (pathItem[method]) {
+        continue;
+      }
+
+      if (tag) {
+        tags.add(tag);
+      }
+
+      pathItem[method] = {
+        ...(route.documentation ? { summary: route.documentation } : {}),
+        ...(tag ? { tags: [tag] } : {}),
+        ...(parameters.length
+          ? {
+              parameters: parameters.map((name) => ({
+                name,
+                in: "path",
+                required: true,
+                schema: { type: "string" },
+              })),
+            }
+          : {}),
+        responses: route.responses.length
+          ? buildResponses(route, config)
+          : { default: { description: "Response" } },
+      };
+    }
+  }
+
+  document.tags = Array.from(tags).map((name) => ({ name }));
+  return document;
+}
@@ -0,0 +1,56 @@
+import * as path from "path";
+import { validate as isUUID } from "uuid";
+import { createNamespace, deriveUUID, toSourcePath } from "./identifiers";
+
+const ENVIRONMENT_UUID = "0b5b1d3e-2a4f-4c6d-8e9f-1a2b3c4d5e6f";
+
+describe("createNamespace", () => {
+  it("derives the same namespace from the same environment", () => {
+    expect(createNamespace(ENVIRONMENT_UUID)).toBe(
+      createNamespace(ENVIRONMENT_UUID)
+    );
+  });
+
+  it("derives different namespaces for different environments", () => {
+    expect(createNamespace(ENVIRONMENT_UUID)).not.toBe(
+      createNamespace("9f8e7d6c-5b4a-4321-8fed-cba987654321")
+    );
+  });
+});
+
+describe("deriveUUID", () => {
+  const namespace = createNamespace(ENVIRONMENT_UUID);
+
+  it("returns a stable UUID", () => {
+    const uuid = deriveUUID(namespace, "route", "features/users/get-user");
+    expect(isUUID(uuid)).toBe(true);
+    expect(deriveUUID(namespace, "route", "features/users/get-user")).toBe(
+      uuid
+    );
+  });
+
+  it("depends on the kind, the source path and the namespace", () => {
+    const uuid = deriveUUID(namespace, "route", "features/users");
+    expect(deriveUUID(namespace, "folder", "features/users")).not.toBe(uuid);
+    expect(deriveUUID(namespace, "route", "features/orders")).not.toBe(uuid);
+    expect(
+      deriveUUID(
+        createNamespace("9f8e7d6c-5b4a-4321-8fed-cba987654321"),
+        "route",
+        "features/users"
+      )
+    ).not.toBe(uuid);
+  });
+});
+
+describe("toSourcePath", () => {
+  it("drops the extension and uses forward slashes", () => {
+    const compiledDir = path.join("tmp", "compiled");
+    expect(
+      toSourcePath(
+        compiledDir,
+        path.join(compiledDir, "features", "users", "get-user.js")
+      )
+    ).toBe("features/users/get-user");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Deterministic UUIDs for entities whose source files leave them out
+ */
+import * as path from "path";
+import { v5 as uuidv5 } from "uuid";
+
+/**
+ * Namespace of the generator, combined with the environment UUID to
+ * form the namespace of a project
+ */
+const GENERATOR_NAMESPACE = "5b0b3c1e-6f0a-4d8e-9a43-6f3f0c2d9e71";
+
+/**
+ * Creates the namespace for the UUIDs derived within one environment
+ * @param environmentUuid The UUID of the environment's global config
+ * @returns The project namespace
+ */
+export function createNamespace(environmentUuid: string): string {
+  return uuidv5(environmentUuid, GENERATOR_NAMESPACE);
+}
+
+/**
+ * Derives a stable UUID from the kind of entity and its source path
+ * @param namespace The project namespace
+ * @param kind The kind of entity (e.g. "route", "folder")
+ * @param sourcePath The entity's path relative to the compiled directory
+ * @returns A UUIDv5 that is the same on every build
+ */
+export function deriveUUID(
+  namespace: string,
+  kind: string,
+  sourcePath: string
+): string {
+  return uuidv5(`${kind}:${sourcePath}`, namespace);
+}
+
+/**
+ * Converts a compiled file path to the extension-less, forward-slash path
+ * used to derive UUIDs, so it is the same on every platform
+ * @param compiledDir The directory containing the compiled files
+ * @param filePath The path of the file or directory
+ * @returns The normalised source path
+ */
+export function toSourcePath(compiledDir: string, filePath: string): string {
+  return path
+    .relative(compiledDir, filePath)
+    .replace(/\.js$/, "")
+    .split(path.sep)
+    .join("/");
+}
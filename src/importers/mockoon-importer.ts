@@ -0,0 +1,288 @@
+/**
+ * Import an existing Mockoon environment into a TypeScript source tree
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  DatabucketConfig,
+  FolderConfig,
+  MockoonConfig,
+  RouteConfig,
+} from "../types";
+import { renderConfigModule, reserveName, toFileName } from "./source-writer";
+import { isTemplatedPath } from "../processors/asset-resolver";
+
+/**
+ * Summary of the files written by an import
+ */
+export interface ImportSummary {
+  files: string[];
+  folders: number;
+  routes: number;
+  databuckets: number;
+}
+
+/**
+ * Parses stringified INLINE bodies back into objects where possible
+ * Bodies that are not plain JSON (e.g. templated bodies) are kept as strings
+ * @param route The route to convert
+ * @returns A copy of the route with parsed bodies
+ */
+function parseInlineBodies(route: RouteConfig): RouteConfig {
+  return {
+    ...route,
+    responses: (route.responses || []).map((response) => {
+      if (response.bodyType !== "INLINE" || typeof response.body !== "string") {
+        return response;
+      }
+
+      try {
+        const parsed = JSON.parse(response.body);
+        if (parsed !== null && typeof parsed === "object") {
+          return { ...response, body: parsed };
+        }
+      } catch {
+        // Not JSON, keep the original string
+      }
+      return response;
+    }),
+  };
+}
+
+/**
+ * Rewrites the file paths of FILE responses, which Mockoon resolves against
+ * the environment file, to be relative to the route's source file
+ * @param route The route to convert
+ * @param environmentDir The directory of the imported environment file
+ * @param routeDir The directory the route's source file is written to
+ * @returns A copy of the route with relocated file paths
+ */
+function relocateFilePaths(
+  route: RouteConfig,
+  environmentDir: string,
+  routeDir: string
+): RouteConfig {
+  return {
+    ...route,
+    responses: (route.responses || []).map((response) => {
+      if (
+        response.bodyType !== "FILE" ||
+        !response.filePath ||
+        isTemplatedPath(response.filePath) ||
+        path.isAbsolute(response.filePath)
+      ) {
+        return response;
+      }
+
+      const filePath = path.resolve(environmentDir, response.filePath);
+      return {
+        ...response,
+        filePath: path
+          .relative(path.resolve(routeDir), filePath)
+          .replace(/\\/g, "/"),
+      };
+    }),
+  };
+}
+
+/**
+ * Builds the file name for a route from its method and endpoint
+ * @param route The route to name
+ * @param usedNames The names already used in the target directory
+ * @returns The file name without extension
+ */
+function routeFileName(route: RouteConfig, usedNames: Set<string>): string {
+  const name = toFileName(
+    [route.method, route.endpoint].filter(Boolean).join(" "),
+    "route"
+  );
+  return reserveName(name, usedNames);
+}
+
+/**
+ * Imports a Mockoon environment file into the source layout used by the generator
+ * @param configPath The path to the Mockoon environment JSON file
+ * @param configDir The source directory to write the TypeScript files to
+ * @param force Whether to write into a non-empty source directory
+ * @returns A summary of the written files
+ */
+export async function importMockoonConfig(
+  configPath: string,
+  configDir: string,
+  force = false
+): Promise<ImportSummary> {
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Mockoon config not found at path: ${configPath}`);
+  }
+
+  const config: MockoonConfig = await fs.readJson(configPath);
+  if (!config.uuid || !Array.isArray(config.routes)) {
+    throw new Error(`${configPath} is not a Mockoon environment file`);
+  }
+
+  if (
+    !force &&
+    fs.existsSync(configDir) &&
+    fs.readdirSync(configDir).length > 0
+  ) {
+    throw new Error(
+      `Config directory ${configDir} is not empty, use --force to overwrite`
+    );
+  }
+
+  const summary: ImportSummary = {
+    files: [],
+    folders: 0,
+    routes: 0,
+    databuckets: 0,
+  };
+
+  const writeSource = async (relativePath: string, source: string) => {
+    const filePath = path.join(configDir, relativePath);
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, source);
+    summary.files.push(relativePath);
+  };
+
+  // Global config holds everything that is not generated from the tree
+  const {
+    folders = [],
+    routes = [],
+    data = [],
+    rootChildren = [],
+    ...globalConfig
+  } = config;
+
+  await writeSource(
+    "global.ts",
+    renderConfigModule({
+      description: "Global configuration for the Mockoon environment",
+      typeName: "GlobalConfig",
+      value: globalConfig,
+    })
+  );
+
+  const foldersByUuid = new Map<string, FolderConfig>(
+    folders.map((folder) => [folder.uuid, folder])
+  );
+  const routesByUuid = new Map<string, RouteConfig>(
+    routes.map((route) => [route.uuid, route])
+  );
+  const writtenUuids = new Set<string>();
+
+  // Keep the original order of the children of every folder
+  const orders = new Map<string, number>();
+  const nextOrder = (directory: string) => {
+    const order = orders.get(directory) || 0;
+    orders.set(directory, order + 1);
+    return order;
+  };
+
+  const writeRoute = async (
+    route: RouteConfig,
+    directory: string,
+    usedNames: Set<string>
+  ) => {
+    writtenUuids.add(route.uuid);
+    const fileName = routeFileName(route, usedNames);
+    await writeSource(
+      path.join(directory, `${fileName}.ts`),
+      renderConfigModule({
+        description: `Configuration for the ${
+          route.documentation || `${route.method} ${route.endpoint}`
+        } endpoint`,
+        typeName: "RouteConfig",
+        value: {
+          ...relocateFilePaths(
+            parseInlineBodies(route),
+            path.dirname(configPath),
+            path.join(configDir, directory)
+          ),
+          order: nextOrder(directory),
+        },
+      })
+    );
+    summary.routes++;
+  };
+
+  const writeFolder = async (
+    folder: FolderConfig,
+    parentDirectory: string,
+    usedNames: Set<string>
+  ) => {
+    writtenUuids.add(folder.uuid);
+    const order = nextOrder(parentDirectory);
+    const directory = path.join(
+      parentDirectory,
+      reserveName(toFileName(folder.name, "folder"), usedNames)
+    );
+    await writeSource(
+      path.join(directory, "folder.ts"),
+      renderConfigModule({
+        description: `Configuration for the ${folder.name} folder`,
+        typeName: "FolderConfig",
+        value: { uuid: folder.uuid, name: folder.name, children: [], order },
+      })
+    );
+    summary.folders++;
+
+    // Names already taken inside this folder, folder.ts included
+    const childNames = new Set<string>(["folder"]);
+    await writeChildren(folder.children, directory, childNames);
+  };
+
+  const writeChildren = async (
+    children: FolderConfig["children"],
+    directory: string,
+    usedNames: Set<string>
+  ) => {
+    for (const child of children) {
+      if (writtenUuids.has(child.uuid)) {
+        continue;
+      }
+      if (child.type === "folder") {
+        const folder = foldersByUuid.get(child.uuid);
+        if (folder) {
+          await writeFolder(folder, directory, usedNames);
+        }
+      } else {
+        const route = routesByUuid.get(child.uuid);
+        if (route) {
+          await writeRoute(route, directory, usedNames);
+        }
+      }
+    }
+  };
+
+  // Walk the tree from the root, then pick up anything the tree does not reference
+  const rootNames = new Set<string>();
+  await writeChildren(rootChildren, "features", rootNames);
+  await writeChildren(
+    [
+      ...folders.map((folder) => ({ type: "folder" as const, uuid: folder.uuid })),
+      ...routes.map((route) => ({ type: "route" as const, uuid: route.uuid })),
+    ],
+    "features",
+    rootNames
+  );
+
+  // Databuckets
+  const dataNames = new Set<string>();
+  for (const databucket of data as DatabucketConfig[]) {
+    const fileName = reserveName(
+      toFileName(databucket.id || databucket.name, "databucket"),
+      dataNames
+    );
+    await writeSource(
+      path.join("data", `${fileName}.ts`),
+      renderConfigModule({
+        description: `Configuration for the ${databucket.name} databucket`,
+        typeName: "DatabucketConfig",
+        value: databucket,
+      })
+    );
+    summary.databuckets++;
+  }
+
+  return summary;
+}
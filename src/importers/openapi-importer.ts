@@ -0,0 +1,745 @@
+/**
+ * Scaffold features and routes from an OpenAPI 3 specification
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { v4 as uuidv4 } from "uuid";
+import {
+  GlobalConfig,
+  HeaderConfig,
+  Methods,
+  ResponseConfig,
+  RouteConfig,
+} from "../types";
+import { renderConfigModule, reserveName, toFileName } from "./source-writer";
+
+/**
+ * Minimal shape of the OpenAPI 3 objects used by the importer
+ */
+type OpenApiSchema = Record<string, any>;
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+  example?: unknown;
+  examples?: Record<string, { summary?: string; value?: unknown; $ref?: string }>;
+}
+
+interface OpenApiResponse {
+  description?: string;
+  headers?: Record<string, { schema?: OpenApiSchema; example?: unknown }>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiOperation {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  responses?: Record<string, OpenApiResponse>;
+}
+
+interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; description?: string };
+  servers?: { url: string }[];
+  paths?: Record<string, Record<string, any>>;
+  components?: Record<string, Record<string, any>>;
+}
+
+/**
+ * Route and response objects written without UUIDs, which the generator
+ * derives from the file path of each route
+ */
+type ResponseSource = Omit<ResponseConfig, "uuid">;
+type RouteSource = Omit<RouteConfig, "uuid" | "responses"> & {
+  responses: ResponseSource[];
+};
+
+/**
+ * Summary of the files written by an OpenAPI import
+ */
+export interface OpenApiImportSummary {
+  files: string[];
+  skipped: string[];
+  features: number;
+  routes: number;
+}
+
+/**
+ * HTTP methods an OpenAPI path item can declare that Mockoon supports
+ */
+const OPERATION_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+] as const;
+
+/**
+ * Global type names that generated declarations must not shadow
+ */
+const RESERVED_TYPE_NAMES = new Set([
+  "Array",
+  "Blob",
+  "Boolean",
+  "Date",
+  "Error",
+  "File",
+  "Function",
+  "Headers",
+  "Map",
+  "Number",
+  "Object",
+  "Promise",
+  "Record",
+  "RegExp",
+  "Request",
+  "Response",
+  "Set",
+  "String",
+  "Symbol",
+  "URL",
+]);
+
+/**
+ * Loads an OpenAPI document from a JSON or YAML file
+ * @param specPath The path to the specification file
+ * @returns The parsed document
+ */
+export async function loadOpenApiDocument(
+  specPath: string
+): Promise<OpenApiDocument> {
+  if (!fs.existsSync(specPath)) {
+    throw new Error(`OpenAPI specification not found at path: ${specPath}`);
+  }
+
+  const content = await fs.readFile(specPath, "utf8");
+  const extension = path.extname(specPath).toLowerCase();
+  const document =
+    extension === ".json" ? JSON.parse(content) : parseYaml(content);
+
+  if (
+    !document ||
+    typeof document.openapi !== "string" ||
+    !document.openapi.startsWith("3.")
+  ) {
+    throw new Error(`${specPath} is not an OpenAPI 3 specification`);
+  }
+
+  return document;
+}
+
+/**
+ * Resolves a local JSON reference (e.g. "#/components/schemas/User")
+ * @param document The OpenAPI document
+ * @param ref The reference to resolve
+ * @returns The referenced object
+ */
+function resolveRef(document: OpenApiDocument, ref: string): any {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`Only local references are supported: ${ref}`);
+  }
+
+  const target = ref
+    .slice(2)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<any>((current, segment) => current?.[segment], document);
+
+  if (target === undefined) {
+    throw new Error(`Unresolved reference: ${ref}`);
+  }
+  return target;
+}
+
+/**
+ * Follows references until a concrete object is reached
+ * @param document The OpenAPI document
+ * @param value The value that may be a reference
+ * @returns The dereferenced value
+ */
+function deref<T>(document: OpenApiDocument, value: T): T {
+  let current: any = value;
+  const seen = new Set<string>();
+  while (current && typeof current.$ref === "string") {
+    if (seen.has(current.$ref)) {
+      throw new Error(`Circular reference: ${current.$ref}`);
+    }
+    seen.add(current.$ref);
+    current = resolveRef(document, current.$ref);
+  }
+  return current;
+}
+
+/**
+ * Converts a name to PascalCase for use as a type name
+ * @param value The value to convert
+ * @returns The PascalCase name
+ */
+function toTypeName(value: string): string {
+  const name = toFileName(value, "")
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `T${name}` : name || "Body";
+}
+
+/**
+ * Builds TypeScript declarations from OpenAPI schemas
+ */
+class TypeBuilder {
+  private declarations = new Map<string, string>();
+  private refNames = new Map<string, string>();
+
+  constructor(private document: OpenApiDocument) {}
+
+  /**
+   * Declares a named type for a schema
+   * @param name The preferred type name
+   * @param schema The schema to declare
+   * @returns The declared name
+   */
+  declare(name: string, schema: OpenApiSchema): string {
+    if (schema.$ref) {
+      return this.typeFor(schema, 0);
+    }
+    const typeName = this.uniqueName(name);
+    this.declarations.set(typeName, "");
+    this.declarations.set(typeName, this.renderDeclaration(typeName, schema));
+    return typeName;
+  }
+
+  /**
+   * Renders all collected declarations
+   * @returns The TypeScript source for the declarations
+   */
+  render(): string {
+    return Array.from(this.declarations.values()).join("\n");
+  }
+
+  private uniqueName(name: string): string {
+    const baseName = RESERVED_TYPE_NAMES.has(name) ? `${name}Schema` : name;
+    let candidate = baseName;
+    let counter = 2;
+    while (this.declarations.has(candidate)) {
+      candidate = `${baseName}${counter}`;
+      counter++;
+    }
+    return candidate;
+  }
+
+  private renderDeclaration(name: string, schema: OpenApiSchema): string {
+    const comment = schema.description
+      ? `/**\n * ${String(schema.description).split("\n")[0]}\n */\n`
+      : `/**\n * ${name} schema\n */\n`;
+    if (this.isObjectSchema(schema) && !schema.nullable) {
+      return `${comment}interface ${name} ${this.renderObject(schema, 0)}\n`;
+    }
+    return `${comment}type ${name} = ${this.typeFor(schema, 0)};\n`;
+  }
+
+  private isObjectSchema(schema: OpenApiSchema): boolean {
+    return (
+      (schema.type === "object" || (!schema.type && !!schema.properties)) &&
+      !schema.allOf &&
+      !schema.oneOf &&
+      !schema.anyOf
+    );
+  }
+
+  private renderObject(schema: OpenApiSchema, depth: number): string {
+    const padding = "  ".repeat(depth);
+    const required = new Set<string>(schema.required || []);
+    const lines = Object.entries<OpenApiSchema>(schema.properties || {}).map(
+      ([key, property]) => {
+        const propertyName = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+          ? key
+          : JSON.stringify(key);
+        const optional = required.has(key) ? "" : "?";
+        return `${padding}  ${propertyName}${optional}: ${this.typeFor(
+          property,
+          depth + 1
+        )};`;
+      }
+    );
+
+    if (schema.additionalProperties) {
+      const valueType =
+        schema.additionalProperties === true
+          ? "any"
+          : this.typeFor(schema.additionalProperties, depth + 1);
+      lines.push(`${padding}  [key: string]: ${valueType};`);
+    }
+
+    return lines.length ? `{\n${lines.join("\n")}\n${padding}}` : "{}";
+  }
+
+  private typeFor(schema: OpenApiSchema | undefined, depth: number): string {
+    if (!schema) {
+      return "any";
+    }
+
+    if (schema.$ref) {
+      const ref: string = schema.$ref;
+      let name = this.refNames.get(ref);
+      if (!name) {
+        name = this.uniqueName(toTypeName(ref.split("/").pop() || "Schema"));
+        this.refNames.set(ref, name);
+        // Reserve the name before rendering so recursive schemas terminate
+        this.declarations.set(name, "");
+        this.declarations.set(
+          name,
+          this.renderDeclaration(name, resolveRef(this.document, ref))
+        );
+      }
+      return name;
+    }
+
+    const type = this.baseType(schema, depth);
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  private baseType(schema: OpenApiSchema, depth: number): string {
+    if (schema.enum) {
+      return schema.enum.map((value: unknown) => JSON.stringify(value)).join(" | ");
+    }
+    if (schema.oneOf || schema.anyOf) {
+      return (schema.oneOf || schema.anyOf)
+        .map((item: OpenApiSchema) => this.typeFor(item, depth))
+        .join(" | ");
+    }
+    if (schema.allOf) {
+      return schema.allOf
+        .map((item: OpenApiSchema) => this.typeFor(item, depth))
+        .join(" & ");
+    }
+
+    switch (schema.type) {
+      case "string":
+        return "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "array": {
+        const itemType = this.typeFor(schema.items, depth);
+        return /^[A-Za-z0-9_]+$/.test(itemType)
+          ? `${itemType}[]`
+          : `Array<${itemType}>`;
+      }
+      case "object":
+      case undefined:
+        if (schema.properties || schema.additionalProperties) {
+          return this.renderObject(schema, depth);
+        }
+        return schema.type === "object" ? "Record<string, any>" : "any";
+      default:
+        return "any";
+    }
+  }
+}
+
+/**
+ * Builds an example value from a schema when the spec does not provide one
+ * @param document The OpenAPI document
+ * @param schema The schema to build an example for
+ * @param seen References already being expanded (guards recursive schemas)
+ * @returns The example value
+ */
+function exampleFromSchema(
+  document: OpenApiDocument,
+  schema: OpenApiSchema | undefined,
+  seen: Set<string> = new Set()
+): unknown {
+  if (!schema) {
+    return {};
+  }
+
+  if (schema.$ref) {
+    if (seen.has(schema.$ref)) {
+      return null;
+    }
+    return exampleFromSchema(
+      document,
+      resolveRef(document, schema.$ref),
+      new Set([...seen, schema.$ref])
+    );
+  }
+
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  if (schema.allOf) {
+    return Object.assign(
+      {},
+      ...schema.allOf.map((item: OpenApiSchema) =>
+        exampleFromSchema(document, item, seen)
+      )
+    );
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return exampleFromSchema(document, (schema.oneOf || schema.anyOf)[0], seen);
+  }
+
+  switch (schema.type) {
+    case "string":
+      switch (schema.format) {
+        case "uuid":
+          return "{{faker 'string.uuid'}}";
+        case "email":
+          return "{{faker 'internet.email'}}";
+        case "date":
+          return "{{date (faker 'date.recent') 'yyyy-MM-dd'}}";
+        case "date-time":
+          return "{{faker 'date.recent'}}";
+        case "uri":
+        case "url":
+          return "{{faker 'internet.url'}}";
+        default:
+          return "string";
+      }
+    case "integer":
+    case "number":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return true;
+    case "array":
+      return [exampleFromSchema(document, schema.items, seen)];
+    default: {
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries<OpenApiSchema>(
+        schema.properties || {}
+      )) {
+        result[key] = exampleFromSchema(document, property, seen);
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Converts an OpenAPI response key to a status code
+ * @param key The response key (e.g. "200", "4XX", "default")
+ * @returns The status code
+ */
+function toStatusCode(key: string): number {
+  if (/^[1-5][0-9][0-9]$/.test(key)) {
+    return Number(key);
+  }
+  if (/^[1-5]XX$/i.test(key)) {
+    return Number(key.charAt(0)) * 100;
+  }
+  return 500;
+}
+
+/**
+ * Converts an OpenAPI path to a Mockoon endpoint
+ * @param openApiPath The OpenAPI path (e.g. "/users/{id}")
+ * @returns The Mockoon endpoint (e.g. "users/:id")
+ */
+function toEndpoint(openApiPath: string): string {
+  return openApiPath.replace(/^\/+/, "").replace(/\{([^}]+)\}/g, ":$1");
+}
+
+/**
+ * Gets the endpoint prefix from the first server URL
+ * @param document The OpenAPI document
+ * @returns The endpoint prefix without leading or trailing slashes
+ */
+function endpointPrefixFromServers(document: OpenApiDocument): string {
+  const url = document.servers?.[0]?.url;
+  if (!url) {
+    return "";
+  }
+  const pathname = url.replace(/^[a-z]+:\/\/[^/]+/i, "").replace(/\{[^}]+\}/g, "");
+  return pathname.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Picks the JSON media type of a response, falling back to the first one
+ * @param response The OpenAPI response
+ * @returns The media type name and object, if any
+ */
+function pickMediaType(
+  response: OpenApiResponse
+): [string, OpenApiMediaType] | undefined {
+  const entries = Object.entries(response.content || {});
+  return (
+    entries.find(([mediaType]) => /json/i.test(mediaType)) || entries[0]
+  );
+}
+
+/**
+ * Converts the example of a response header to a header value
+ * Only scalar examples can be written as a header, others become empty
+ * @param example The example of the header
+ * @returns The header value
+ */
+function headerValue(example: unknown): string {
+  return typeof example === "string" ||
+    typeof example === "number" ||
+    typeof example === "boolean"
+    ? String(example)
+    : "";
+}
+
+/**
+ * Builds the responses and body types of a route from an operation
+ * @param document The OpenAPI document
+ * @param operation The OpenAPI operation
+ * @param typeName The base type name for the operation's bodies
+ * @param types The type builder collecting declarations for the route file
+ * @returns The responses and the body type names
+ */
+function buildResponses(
+  document: OpenApiDocument,
+  operation: OpenApiOperation,
+  typeName: string,
+  types: TypeBuilder
+): { responses: ResponseSource[]; bodyTypes: string[] } {
+  const responses: ResponseSource[] = [];
+  const bodyTypes = new Set<string>();
+  const entries = Object.entries(operation.responses || {});
+  const defaultIndex = Math.max(
+    entries.findIndex(([key]) => /^2/.test(key)),
+    0
+  );
+
+  entries.forEach(([key, responseOrRef], index) => {
+    const response = deref(document, responseOrRef);
+    const statusCode = toStatusCode(key);
+    const media = pickMediaType(response);
+    const headers: HeaderConfig[] = media
+      ? [{ key: "Content-Type", value: media[0] }]
+      : [];
+
+    for (const [name, headerOrRef] of Object.entries(response.headers || {})) {
+      const header = deref(document, headerOrRef);
+      headers.push({
+        key: name,
+        value: headerValue(
+          header.example ?? exampleFromSchema(document, header.schema)
+        ),
+      });
+    }
+
+    // One response per documented example, or one built from the schema
+    const examples: { label: string; body: unknown }[] = [];
+    if (media) {
+      const [, mediaType] = media;
+      if (mediaType.examples && Object.keys(mediaType.examples).length > 0) {
+        for (const [name, exampleOrRef] of Object.entries(mediaType.examples)) {
+          const example = deref(document, exampleOrRef);
+          examples.push({
+            label: example.summary || name,
+            body: example.value,
+          });
+        }
+      } else {
+        examples.push({
+          label: response.description || String(statusCode),
+          body:
+            mediaType.example !== undefined
+              ? mediaType.example
+              : exampleFromSchema(document, mediaType.schema),
+        });
+      }
+
+      if (mediaType.schema) {
+        const suffix = index === defaultIndex ? "" : String(statusCode);
+        bodyTypes.add(
+          types.declare(`${typeName}${suffix}Response`, mediaType.schema)
+        );
+      }
+    } else {
+      examples.push({
+        label: response.description || String(statusCode),
+        body: "",
+      });
+      bodyTypes.add("string");
+    }
+
+    examples.forEach((example, exampleIndex) => {
+      responses.push({
+        body: example.body,
+        latency: 0,
+        statusCode,
+        label: example.label,
+        headers,
+        bodyType: "INLINE",
+        filePath: "",
+        databucketID: "",
+        sendFileAsBody: false,
+        rules: [],
+        rulesOperator: "OR",
+        disableTemplating: false,
+        fallbackTo404: false,
+        default: index === defaultIndex && exampleIndex === 0,
+        crudKey: "id",
+        callbacks: [],
+      });
+    });
+  });
+
+  return { responses, bodyTypes: Array.from(bodyTypes) };
+}
+
+/**
+ * Builds the global config for an environment created from a spec
+ * @param document The OpenAPI document
+ * @returns The global configuration
+ */
+function buildGlobalConfig(document: OpenApiDocument): GlobalConfig {
+  return {
+    uuid: uuidv4(),
+    lastMigration: 33,
+    name: document.info?.title || "OpenAPI Mock",
+    endpointPrefix: endpointPrefixFromServers(document),
+    latency: 0,
+    port: 3000,
+    hostname: "",
+    proxyMode: false,
+    proxyHost: "",
+    proxyRemovePrefix: false,
+    proxyReqHeaders: [],
+    proxyResHeaders: [],
+    cors: true,
+    headers: [{ key: "Content-Type", value: "application/json" }],
+    tlsOptions: {
+      enabled: false,
+      type: "CERT",
+      pfxPath: "",
+      certPath: "",
+      keyPath: "",
+      caPath: "",
+      passphrase: "",
+    },
+    callbacks: [],
+  };
+}
+
+/**
+ * Generates feature directories and route files from an OpenAPI 3 specification
+ * Existing files are left untouched unless force is set
+ * @param specPath The path to the OpenAPI specification (JSON or YAML)
+ * @param configDir The source directory to write the TypeScript files to
+ * @param force Whether to overwrite existing files
+ * @returns A summary of the written files
+ */
+export async function importOpenApi(
+  specPath: string,
+  configDir: string,
+  force = false
+): Promise<OpenApiImportSummary> {
+  const document = await loadOpenApiDocument(specPath);
+  const summary: OpenApiImportSummary = {
+    files: [],
+    skipped: [],
+    features: 0,
+    routes: 0,
+  };
+
+  const writeSource = async (relativePath: string, source: string) => {
+    const filePath = path.join(configDir, relativePath);
+    if (!force && fs.existsSync(filePath)) {
+      summary.skipped.push(relativePath);
+      return;
+    }
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, source);
+    summary.files.push(relativePath);
+  };
+
+  await writeSource(
+    "global.ts",
+    renderConfigModule({
+      description: "Global configuration for the Mockoon environment",
+      typeName: "GlobalConfig",
+      value: buildGlobalConfig(document),
+    })
+  );
+
+  const featureNames = new Map<string, Set<string>>();
+
+  for (const [openApiPath, pathItem] of Object.entries(document.paths || {})) {
+    for (const method of OPERATION_METHODS) {
+      const operation: OpenApiOperation | undefined = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+
+      // One feature directory per tag, using the operation's first tag
+      const tag = operation.tags?.[0] || "default";
+      const featureDir = toFileName(tag, "default");
+      let usedNames = featureNames.get(featureDir);
+      if (!usedNames) {
+        usedNames = new Set<string>(["folder"]);
+        featureNames.set(featureDir, usedNames);
+        summary.features++;
+        await writeSource(
+          path.join("features", featureDir, "folder.ts"),
+          renderConfigModule({
+            description: `Configuration for the ${tag} folder`,
+            typeName: "FolderConfig",
+            value: { name: tag, children: [] },
+          })
+        );
+      }
+
+      const endpoint = toEndpoint(openApiPath);
+      const fileName = reserveName(
+        toFileName(operation.operationId || `${method} ${endpoint}`, "route"),
+        usedNames
+      );
+      const typeName = toTypeName(
+        operation.operationId || `${method} ${endpoint}`
+      );
+      const types = new TypeBuilder(document);
+      const { responses, bodyTypes } = buildResponses(
+        document,
+        operation,
+        typeName,
+        types
+      );
+
+      const route: RouteSource = {
+        type: "http",
+        documentation:
+          operation.summary || operation.description || operation.operationId || "",
+        method: method as keyof typeof Methods,
+        endpoint,
+        responses,
+        responseMode: null,
+        streamingMode: null,
+        streamingInterval: 0,
+      };
+
+      await writeSource(
+        path.join("features", featureDir, `${fileName}.ts`),
+        renderConfigModule({
+          description: `Configuration for the ${
+            route.documentation || `${method.toUpperCase()} ${openApiPath}`
+          } endpoint`,
+          typeName: "RouteConfig",
+          value: route,
+          preamble: types.render(),
+          typeArgument: bodyTypes.length ? bodyTypes.join(" | ") : undefined,
+        })
+      );
+      summary.routes++;
+    }
+  }
+
+  return summary;
+}
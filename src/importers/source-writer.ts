@@ -0,0 +1,153 @@
+/**
+ * Utilities for writing configuration objects back out as TypeScript source
+ */
+
+/**
+ * Checks whether an object key can be written without quotes
+ * @param key The key to check
+ * @returns True if the key is a valid identifier
+ */
+function isIdentifier(key: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key);
+}
+
+/**
+ * Formats a string as a TypeScript string literal
+ * Multi-line strings are written as template literals to keep them readable
+ * @param value The string to format
+ * @returns The string literal
+ */
+function formatString(value: string): string {
+  if (!value.includes("\n")) {
+    return JSON.stringify(value);
+  }
+
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/`/g, "\\`")
+    .replace(/\$\{/g, "\\${");
+  return `\`${escaped}\``;
+}
+
+/**
+ * Converts a JSON-compatible value to a TypeScript literal
+ * @param value The value to convert
+ * @param indent The current indentation level
+ * @returns The TypeScript source for the value
+ */
+export function toTypeScriptLiteral(value: unknown, indent = 0): string {
+  const padding = "  ".repeat(indent);
+  const innerPadding = "  ".repeat(indent + 1);
+
+  if (value === null || value === undefined) {
+    return "null";
+  }
+
+  if (typeof value === "string") {
+    return formatString(value);
+  }
+
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return "[]";
+    }
+    const items = value.map(
+      (item) => `${innerPadding}${toTypeScriptLiteral(item, indent + 1)},`
+    );
+    return `[\n${items.join("\n")}\n${padding}]`;
+  }
+
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).filter(
+      ([, entryValue]) => entryValue !== undefined
+    );
+    if (entries.length === 0) {
+      return "{}";
+    }
+    const properties = entries.map(([key, entryValue]) => {
+      const formattedKey = isIdentifier(key) ? key : JSON.stringify(key);
+      return `${innerPadding}${formattedKey}: ${toTypeScriptLiteral(
+        entryValue,
+        indent + 1
+      )},`;
+    });
+    return `{\n${properties.join("\n")}\n${padding}}`;
+  }
+
+  throw new Error(`Cannot convert value of type ${typeof value} to source`);
+}
+
+/**
+ * Options for rendering a configuration module
+ */
+export interface ModuleSourceOptions {
+  // Description written in the file's leading comment
+  description: string;
+  // The type the default export is asserted as (e.g. "RouteConfig")
+  typeName: string;
+  // The value exported by default
+  value: unknown;
+  // Extra source placed between the import and the export (e.g. interfaces)
+  preamble?: string;
+  // The generic argument for the type assertion, if any
+  typeArgument?: string;
+}
+
+/**
+ * Renders a configuration module in the layout used by the example config
+ * @param options The module options
+ * @returns The TypeScript source of the module
+ */
+export function renderConfigModule(options: ModuleSourceOptions): string {
+  const { description, typeName, value, preamble, typeArgument } = options;
+  const assertion = typeArgument ? `${typeName}<${typeArgument}>` : typeName;
+  const sections = [
+    `/**\n * ${description}\n */\nimport { ${typeName} } from "mockoon-config-generator";\n`,
+  ];
+
+  if (preamble) {
+    sections.push(`${preamble.trimEnd()}\n`);
+  }
+
+  sections.push(
+    `export default ${toTypeScriptLiteral(value)} as ${assertion};\n`
+  );
+
+  return sections.join("\n");
+}
+
+/**
+ * Converts a display name or endpoint to a kebab-case file name
+ * @param value The value to convert
+ * @param fallback The name to use when nothing usable remains
+ * @returns The file-system safe name
+ */
+export function toFileName(value: string, fallback: string): string {
+  const name = value
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return name || fallback;
+}
+
+/**
+ * Returns a name that is not already in the given set, and reserves it
+ * @param name The preferred name
+ * @param usedNames The names already taken
+ * @returns A unique name
+ */
+export function reserveName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  let counter = 2;
+  while (usedNames.has(candidate)) {
+    candidate = `${name}-${counter}`;
+    counter++;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
@@ -1,33 +1,58 @@
-#!/usr/bin/env node
 /**
- * Command-line interface for the Mockoon config generator
+ * Library entry point for the Mockoon config generator
+ * Importing this module has no side effects, the command-line interface lives in cli.ts
  */
-import yargs from "yargs";
-import { hideBin } from "yargs/helpers";
-import * as path from "path";
-import { main } from "./main";
 
 // Export types for package users
 export * from "./types";
 
-// Parse command line arguments
-yargs(hideBin(process.argv))
-  .option("baseDir", {
-    alias: "b",
-    describe: "Base directory for all files",
-    default: "./mockoon-config",
-    type: "string",
-  })
-  .command(
-    "$0",
-    "Generate Mockoon config",
-    () => {},
-    (argv) => {
-      const baseDir = argv.baseDir as string;
-      const configDir = path.join(baseDir, "src");
-      const outputPath = path.join(baseDir, "dist", "config.json");
+// Programmatic API
+export {
+  generate,
+  generateEnvironments,
+  environmentOutputPath,
+  write,
+  GenerateOptions,
+  GeneratedEnvironment,
+  WriteOptions,
+} from "./api";
+export {
+  GeneratorError,
+  CompileError,
+  MissingUUIDError,
+  ValidationError,
+  ValidationIssue,
+} from "./errors";
+export { Logger, consoleLogger, silentLogger } from "./logger";
+export {
+  diffConfigs,
+  formatConfigDiff,
+  EntityChange,
+  EntityKind,
+  FieldChange,
+} from "./analyzers/config-diff";
+export {
+  mergeConfigs,
+  MergedConfig,
+  UnmanagedEntity,
+} from "./generators/config-merger";
+export {
+  startPreviewServer,
+  findUnsupportedFeatures,
+  PreviewServer,
+  PreviewServerOptions,
+} from "./server/preview-server";
+export {
+  resolveResponse,
+  ResolveRequest,
+  ResolvedResponse,
+  ResolveOptions,
+  ResolveReason,
+  ResponseEvaluation,
+  RuleEvaluation,
+} from "./server/response-resolver";
 
-      main(configDir, outputPath, baseDir);
-    }
-  )
-  .help().argv;
+// Helpers for source files
+export { Template, template, repeat } from "./templates";
+export { fixture } from "./fixtures";
+export { rule, not, RuleCondition } from "./rules";
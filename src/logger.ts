@@ -0,0 +1,30 @@
+/**
+ * Logging used by the generator, replaceable when embedding the library
+ */
+
+/**
+ * Receives the progress messages of the generator
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Logger that writes to the console
+ */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+  error: (message) => console.error(message),
+};
+
+/**
+ * Logger that discards every message
+ */
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
@@ -3,13 +3,42 @@
  */
 import * as fs from "fs-extra";
 import * as path from "path";
-import { compileTypeScript } from "./compiler";
-import { processGlobalConfig } from "./processors/global-processor";
-import { processFeatures } from "./processors/feature-processor";
-import { processData } from "./processors/data-processor";
-import { generateConfig } from "./generators/config-generator";
-import { validateUUID } from "./validators";
+import { clearRequireCache, watchTypeScript } from "./compiler";
+import {
+  GeneratedEnvironment,
+  environmentOutputPath,
+  generate,
+  generateEnvironments,
+  write,
+} from "./api";
+import { DEFAULT_ENVIRONMENT } from "./processors/global-processor";
+import { bundleAssets } from "./generators/asset-bundler";
+import { diffConfigs, formatConfigDiff } from "./analyzers/config-diff";
+import { startPreviewServer } from "./server/preview-server";
+import { consoleLogger } from "./logger";
+import { generateOpenApi } from "./generators/openapi-generator";
+import { importMockoonConfig } from "./importers/mockoon-importer";
+import { importOpenApi } from "./importers/openapi-importer";
 import { v4 as uuidv4 } from "uuid";
+import { stringify as stringifyYaml } from "yaml";
+import { MockoonConfig } from "./types";
+
+/**
+ * Options for the command-line config generation
+ */
+export interface RunOptions {
+  // Path to also write an OpenAPI 3 document to (.json, .yaml or .yml)
+  openApiPath?: string;
+  // Sort routes so more specific endpoints are matched first
+  sortRoutes?: boolean;
+  // Fail on duplicate and overlapping routes instead of warning
+  strict?: boolean;
+  // Profile whose overlay files are merged onto the base files
+  profile?: string;
+  // Environment file the default environment is merged into, instead of
+  // overwriting the output file
+  mergeInto?: string;
+}
 
 /**
  * Helper function to log messages with timestamps and separators
@@ -45,69 +74,89 @@ function handleError(error: unknown, context: string): never {
 }
 
 /**
- * Process and generate the Mockoon configuration
- * @param configDir The directory containing compiled config files
- * @param outputPath The path to write the generated config to
+ * Writes an OpenAPI 3 document describing the generated config
+ * The format is picked from the file extension (YAML for .yaml/.yml, JSON otherwise)
+ * @param config The generated Mockoon config
+ * @param openApiPath The path to write the document to
  */
-async function processAndGenerateConfig(
-  compiledDir: string,
-  outputPath: string
+async function writeOpenApiDocument(
+  config: MockoonConfig,
+  openApiPath: string
 ): Promise<void> {
-  // Process global config
-  console.log("Processing global config...");
-  const globalConfig = await processGlobalConfig(compiledDir);
-
-  // Process features
-  console.log("Processing features...");
-  const { folders, routes } = await processFeatures(compiledDir);
-
-  // Process data
-  console.log("Processing data...");
-  const databuckets = await processData(compiledDir);
-
-  // Validate UUIDs and their formats
-  console.log("Validating UUIDs...");
-  validateUUID(globalConfig, "globalConfig");
-  validateUUID(folders, "folders");
-  validateUUID(routes, "routes");
-  validateUUID(databuckets, "databuckets");
-
-  // Generate the final config
-  console.log("Generating final config...");
-  const config = generateConfig(globalConfig, folders, routes, databuckets);
-
-  // Create the output directory if it doesn't exist
-  const outputDir = path.dirname(outputPath);
-  await fs.ensureDir(outputDir);
-
-  // Write the config to the output file
-  console.log(`Writing config to ${outputPath}...`);
-  await fs.writeJson(outputPath, config, { spaces: 2 });
-
-  // Verify the file was written correctly
-  const fileStats = await fs.stat(outputPath);
-  console.log(`Config file written successfully (${fileStats.size} bytes)`);
-
-  // Clean up temporary directory
-  console.log("Cleaning up temporary files...");
-  await fs.remove(compiledDir);
+  console.log(`Writing OpenAPI document to ${openApiPath}...`);
+  const document = generateOpenApi(config);
+
+  await fs.ensureDir(path.dirname(openApiPath));
+  if (/\.ya?ml$/i.test(openApiPath)) {
+    await fs.writeFile(openApiPath, stringifyYaml(document));
+  } else {
+    await fs.writeJson(openApiPath, document, { spaces: 2 });
+  }
+}
+
+/**
+ * Writes the config (and OpenAPI document) of every generated environment
+ * @param environments The generated environments
+ * @param outputPath The path of the default environment's config
+ * @param options Additional generation options
+ * @returns The path the default environment's config was written to, which
+ * is the merged file with mergeInto
+ */
+async function writeEnvironments(
+  environments: GeneratedEnvironment[],
+  outputPath: string,
+  options: RunOptions
+): Promise<string> {
+  let writtenPath = outputPath;
+  for (const { name, config } of environments) {
+    if (options.mergeInto && name === DEFAULT_ENVIRONMENT) {
+      await write(config, options.mergeInto, {
+        logger: consoleLogger,
+        merge: true,
+      });
+      writtenPath = options.mergeInto;
+    } else {
+      await write(config, environmentOutputPath(outputPath, name), {
+        logger: consoleLogger,
+      });
+    }
+
+    if (options.openApiPath) {
+      // Other environments get their name before the extension (openapi.admin.yaml)
+      const extension = path.extname(options.openApiPath);
+      const openApiPath =
+        name === DEFAULT_ENVIRONMENT
+          ? options.openApiPath
+          : `${options.openApiPath.slice(
+              0,
+              options.openApiPath.length - extension.length
+            )}.${name}${extension}`;
+      await writeOpenApiDocument(config, openApiPath);
+    }
+  }
+  return writtenPath;
 }
 
 /**
  * Main function that orchestrates the config generation process
  * @param configDir The directory containing the config files
  * @param outputPath The path to write the generated config to
+ * @param options Additional generation options
  */
 export async function main(
   configDir: string,
   outputPath: string,
-  baseDir: string
+  baseDir: string,
+  options: RunOptions = {}
 ): Promise<void> {
   try {
     logWithTimestamp("Starting Mockoon config generation", true);
     console.log(`Base directory: ${baseDir}`);
     console.log(`Config directory: ${configDir}`);
     console.log(`Output path: ${outputPath}`);
+    if (options.mergeInto) {
+      console.log(`Merging into: ${options.mergeInto}`);
+    }
 
     // Ensure base directory and output directory exist
     await fs.ensureDir(baseDir);
@@ -121,22 +170,273 @@ export async function main(
       return;
     }
 
-    // Compile TypeScript to JavaScript
+    // Compile TypeScript to JavaScript and generate the config
     console.log("Compiling TypeScript files...");
-    const compiledDir = await compileTypeScript(configDir, baseDir);
-
-    await processAndGenerateConfig(compiledDir, outputPath);
+    const environments = await generateEnvironments({
+      srcDir: configDir,
+      logger: consoleLogger,
+      sortRoutes: options.sortRoutes,
+      strict: options.strict,
+      profile: options.profile,
+    });
+    const writtenPath = await writeEnvironments(
+      environments,
+      outputPath,
+      options
+    );
 
     logWithTimestamp(
       "Mockoon config generated successfully",
       false,
-      outputPath
+      writtenPath
     );
   } catch (error) {
     handleError(error, "generating Mockoon config");
   }
 }
 
+/**
+ * Watches the config files and regenerates the config on every change
+ * Errors are printed and the process keeps running until it is stopped
+ * @param configDir The directory containing the config files
+ * @param outputPath The path to write the generated config to
+ * @param baseDir The base directory for all files
+ * @param options Additional generation options
+ */
+export async function watch(
+  configDir: string,
+  outputPath: string,
+  baseDir: string,
+  options: RunOptions = {}
+): Promise<void> {
+  try {
+    logWithTimestamp("Starting Mockoon config watch mode", true);
+    console.log(`Config directory: ${configDir}`);
+    console.log(`Output path: ${outputPath}`);
+    if (options.mergeInto) {
+      console.log(`Merging into: ${options.mergeInto}`);
+    }
+
+    await fs.ensureDir(baseDir);
+    await fs.ensureDir(path.dirname(outputPath));
+
+    if (!fs.existsSync(configDir)) {
+      console.log(`Config directory ${configDir} does not exist.`);
+      console.log("Generating example configuration...");
+      await generateExampleConfig(configDir, outputPath, baseDir);
+    }
+
+    // Rebuilds are queued so a slow rebuild never overlaps the next one
+    let queue = Promise.resolve();
+
+    const watcher = await watchTypeScript(configDir, baseDir, (result) => {
+      queue = queue.then(async () => {
+        if (!result.success) {
+          console.error("Skipping config generation until compilation errors are fixed");
+          return;
+        }
+
+        try {
+          clearRequireCache(result.changedFiles, result.outDir);
+          const environments = await generateEnvironments({
+            srcDir: result.outDir,
+            compile: false,
+            sourceDir: configDir,
+            logger: consoleLogger,
+            sortRoutes: options.sortRoutes,
+            strict: options.strict,
+            profile: options.profile,
+          });
+          const writtenPath = await writeEnvironments(
+            environments,
+            outputPath,
+            options
+          );
+
+          logWithTimestamp("Mockoon config regenerated", false, writtenPath);
+        } catch (error) {
+          console.error(
+            "Error generating Mockoon config:",
+            error instanceof Error ? error.message : error
+          );
+        }
+        console.log("Watching for file changes...");
+      });
+    });
+
+    const stop = () => {
+      watcher.close();
+      fs.removeSync(watcher.outDir);
+      process.exit(0);
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  } catch (error) {
+    handleError(error, "starting watch mode");
+  }
+}
+
+/**
+ * Options for comparing the generated config with an existing one
+ */
+export interface DiffOptions extends RunOptions {
+  // Environment to compare (default: the one defined by global.ts)
+  environment?: string;
+  // Output format, readable text or the list of changes as JSON
+  format?: "text" | "json";
+}
+
+/**
+ * Compares the config generated from the sources with an existing config file
+ * and prints the added, removed and changed entities
+ * @param configDir The directory containing the config files
+ * @param previousPath The path of the config to compare with
+ * @param options Additional generation options and the output format
+ */
+export async function diffConfig(
+  configDir: string,
+  previousPath: string,
+  options: DiffOptions = {}
+): Promise<void> {
+  try {
+    if (!fs.existsSync(previousPath)) {
+      throw new Error(`Config not found at path: ${previousPath}`);
+    }
+    const previous: MockoonConfig = await fs.readJson(previousPath);
+
+    const generated = await generate({
+      srcDir: configDir,
+      sortRoutes: options.sortRoutes,
+      profile: options.profile,
+      environment: options.environment || DEFAULT_ENVIRONMENT,
+    });
+
+    // Point FILE bodies at the assets write() would copy them to
+    const { config } = await bundleAssets(
+      generated,
+      path.dirname(previousPath),
+      false
+    );
+
+    const changes = diffConfigs(previous, config);
+    console.log(
+      options.format === "json"
+        ? JSON.stringify(changes, null, 2)
+        : formatConfigDiff(changes)
+    );
+  } catch (error) {
+    handleError(error, "comparing Mockoon config");
+  }
+}
+
+/**
+ * Options for serving the generated config
+ */
+export interface ServeOptions extends RunOptions {
+  // Environment to serve (default: the one defined by global.ts)
+  environment?: string;
+  // Port to listen on (default: the environment's port)
+  port?: number;
+}
+
+/**
+ * Generates the config in memory and serves it with the preview server
+ * until the process is stopped
+ * @param configDir The directory containing the config files
+ * @param options Additional generation options and the server port
+ */
+export async function serveConfig(
+  configDir: string,
+  options: ServeOptions = {}
+): Promise<void> {
+  try {
+    logWithTimestamp("Starting Mockoon preview server", true);
+    console.log(`Config directory: ${configDir}`);
+
+    const config = await generate({
+      srcDir: configDir,
+      logger: consoleLogger,
+      sortRoutes: options.sortRoutes,
+      strict: options.strict,
+      profile: options.profile,
+      environment: options.environment || DEFAULT_ENVIRONMENT,
+    });
+
+    const preview = await startPreviewServer(config, {
+      logger: consoleLogger,
+      port: options.port,
+    });
+    console.log(`Serving "${config.name}" on ${preview.url}`);
+
+    const stop = () => {
+      preview.close().finally(() => process.exit(0));
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  } catch (error) {
+    handleError(error, "starting preview server");
+  }
+}
+
+/**
+ * Imports an existing Mockoon environment file into TypeScript source files
+ * @param configPath The path to the Mockoon environment JSON file
+ * @param configDir The directory to write the TypeScript files to
+ * @param force Whether to overwrite an existing config directory
+ */
+export async function importConfig(
+  configPath: string,
+  configDir: string,
+  force = false
+): Promise<void> {
+  try {
+    logWithTimestamp("Starting Mockoon config import", true);
+    console.log(`Mockoon config: ${configPath}`);
+    console.log(`Config directory: ${configDir}`);
+
+    const summary = await importMockoonConfig(configPath, configDir, force);
+    summary.files.forEach((file) => console.log(`Wrote ${file}`));
+    console.log(
+      `Imported ${summary.folders} folders, ${summary.routes} routes and ${summary.databuckets} databuckets`
+    );
+
+    logWithTimestamp("Mockoon config imported successfully", false);
+  } catch (error) {
+    handleError(error, "importing Mockoon config");
+  }
+}
+
+/**
+ * Scaffolds features and routes from an OpenAPI 3 specification
+ * @param specPath The path to the OpenAPI specification (JSON or YAML)
+ * @param configDir The directory to write the TypeScript files to
+ * @param force Whether to overwrite existing files
+ */
+export async function importOpenApiSpec(
+  specPath: string,
+  configDir: string,
+  force = false
+): Promise<void> {
+  try {
+    logWithTimestamp("Starting OpenAPI import", true);
+    console.log(`OpenAPI specification: ${specPath}`);
+    console.log(`Config directory: ${configDir}`);
+
+    const summary = await importOpenApi(specPath, configDir, force);
+    summary.files.forEach((file) => console.log(`Wrote ${file}`));
+    summary.skipped.forEach((file) =>
+      console.log(`Skipped ${file} (already exists, use --force to overwrite)`)
+    );
+    console.log(
+      `Imported ${summary.routes} routes in ${summary.features} features`
+    );
+
+    logWithTimestamp("OpenAPI specification imported successfully", false);
+  } catch (error) {
+    handleError(error, "importing OpenAPI specification");
+  }
+}
+
 /**
  * Generates an example configuration with a sample feature and endpoints
  * @param configDir The directory to create for example config files
@@ -161,13 +461,6 @@ async function generateExampleConfig(
     // Ensure the dist directory exists
     await fs.ensureDir(path.dirname(outputPath));
 
-    // Generate folder config
-    const folderConfig = {
-      uuid: uuidv4(),
-      name: "Example Feature",
-      children: [],
-    };
-
     // Write files
     console.log("Writing example configuration files...");
 
@@ -244,7 +537,6 @@ export default {
 import { FolderConfig } from "mockoon-config-generator";
 
 export default {
-  uuid: "${folderConfig.uuid}",
   name: "Example Feature",
   children: [],
 } as FolderConfig;
@@ -257,7 +549,7 @@ export default {
       `/**
  * Configuration for the Get Example Data endpoint
  */
-import { RouteConfig } from "mockoon-config-generator";
+import { RouteInput } from "mockoon-config-generator";
 
 /**
  * Example response interface
@@ -267,36 +559,15 @@ interface ExampleResponse {
 }
 
 export default {
-  uuid: "${uuidv4()}",
-  type: "http",
   documentation: "Get Example Data",
-  method: "get",
   endpoint: "api/example",
   responses: [
     {
-      uuid: "${uuidv4()}",
       body: { message: "This is an example response" },
-      latency: 0,
-      statusCode: 200,
       label: "Success",
-      headers: [],
-      bodyType: "INLINE",
-      filePath: "",
-      databucketID: "",
-      sendFileAsBody: false,
-      rules: [],
-      rulesOperator: "OR",
-      disableTemplating: false,
-      fallbackTo404: false,
-      default: true,
-      crudKey: "id",
-      callbacks: [],
     },
   ],
-  responseMode: null,
-  streamingMode: null,
-  streamingInterval: 0,
-} as RouteConfig<ExampleResponse>;
+} as RouteInput<ExampleResponse>;
 `
     );
 
@@ -306,7 +577,7 @@ export default {
       `/**
  * Configuration for the Create Example Data endpoint
  */
-import { RouteConfig } from "mockoon-config-generator";
+import { RouteInput } from "mockoon-config-generator";
 
 /**
  * Create response interface
@@ -317,36 +588,17 @@ interface CreateResponse {
 }
 
 export default {
-  uuid: "${uuidv4()}",
-  type: "http",
   documentation: "Create Example Data",
   method: "post",
   endpoint: "api/example",
   responses: [
     {
-      uuid: "${uuidv4()}",
       body: { id: "{{faker 'string.uuid'}}", success: true },
-      latency: 0,
       statusCode: 201,
       label: "Created",
-      headers: [],
-      bodyType: "INLINE",
-      filePath: "",
-      databucketID: "",
-      sendFileAsBody: false,
-      rules: [],
-      rulesOperator: "OR",
-      disableTemplating: false,
-      fallbackTo404: false,
-      default: true,
-      crudKey: "id",
-      callbacks: [],
     },
   ],
-  responseMode: null,
-  streamingMode: null,
-  streamingInterval: 0,
-} as RouteConfig<CreateResponse>;
+} as RouteInput<CreateResponse>;
 `
     );
 
@@ -356,32 +608,36 @@ export default {
       `/**
  * Configuration for the Users databucket
  */
-import { DatabucketConfig } from "mockoon-config-generator";
+import { DatabucketConfig, repeat } from "mockoon-config-generator";
+
+/**
+ * User interface
+ */
+interface User {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: string;
+}
 
 export default {
-  uuid: "${uuidv4()}",
   id: "users",
   name: "Users",
   documentation: "",
-  value: \`[
-    {{#repeat 10}}
-    {
-      "id": "{{faker 'string.uuid'}}",
-      "name": "{{faker 'person.fullName'}}",
-      "email": "{{faker 'internet.email'}}",
-      "createdAt": "{{faker 'date.recent'}}"
-    }
-    {{/repeat}}
-  ]\`,
-} as DatabucketConfig;
+  value: repeat(10, {
+    id: "{{faker 'string.uuid'}}",
+    name: "{{faker 'person.fullName'}}",
+    email: "{{faker 'internet.email'}}",
+    createdAt: "{{faker 'date.recent'}}",
+  }),
+} as DatabucketConfig<User[]>;
 `
     );
 
     // Now run the normal process to generate the config
     console.log("Generating config from example files...");
-    const compiledDir = await compileTypeScript(configDir, baseDir);
-
-    await processAndGenerateConfig(compiledDir, outputPath);
+    const config = await generate({ srcDir: configDir, logger: consoleLogger });
+    await write(config, outputPath, { logger: consoleLogger });
 
     logWithTimestamp(
       "Example Mockoon config generated successfully",
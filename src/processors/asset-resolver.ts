@@ -0,0 +1,124 @@
+/**
+ * Resolve the files served by FILE bodies against the source files declaring them
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Callback, RouteConfig } from "../types";
+import { ValidationError, ValidationIssue } from "../errors";
+import { keepSource, sourceOf } from "../sources";
+
+/**
+ * Checks whether a file path is resolved by Mockoon's templating at request time
+ * @param filePath The file path
+ * @returns True if the path contains a Handlebars expression
+ */
+export function isTemplatedPath(filePath: string): boolean {
+  return filePath.includes("{{");
+}
+
+/**
+ * Resolves the file path of a FILE body to an absolute path
+ * @param filePath The file path as written in the source file
+ * @param config The response or callback declaring the path
+ * @param sourceDir The directory containing the TypeScript sources
+ * @param location The source file and path of the file path, for issues
+ * @param issues Receives the files that cannot be found
+ * @returns The absolute file path, or the path as is if it is templated
+ */
+function resolveFilePath(
+  filePath: string | undefined,
+  config: object,
+  sourceDir: string,
+  location: { file?: string; path: string },
+  issues: ValidationIssue[]
+): string | undefined {
+  if (!filePath) {
+    issues.push({ ...location, message: "is required for FILE bodies" });
+    return filePath;
+  }
+  if (isTemplatedPath(filePath)) {
+    return filePath;
+  }
+
+  // Paths are relative to the source file declaring them
+  const file = sourceOf(config);
+  const resolved = path.resolve(
+    file ? path.join(sourceDir, path.dirname(file)) : sourceDir,
+    filePath
+  );
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+    issues.push({ ...location, message: `file ${filePath} not found` });
+    return filePath;
+  }
+  return resolved;
+}
+
+/**
+ * Resolves the file paths of FILE responses and callbacks to absolute paths
+ * @param sourceDir The directory containing the TypeScript sources
+ * @param routes The routes
+ * @param callbacks The inline and file callbacks
+ * @returns Copies of the routes and callbacks with absolute file paths
+ * @throws ValidationError if a file is missing
+ */
+export async function resolveAssets(
+  sourceDir: string,
+  routes: RouteConfig[],
+  callbacks: Callback[]
+): Promise<{ routes: RouteConfig[]; callbacks: Callback[] }> {
+  const issues: ValidationIssue[] = [];
+
+  const resolvedRoutes = routes.map((route, routeIndex) => {
+    if (!route.responses?.some((response) => response.bodyType === "FILE")) {
+      return route;
+    }
+
+    const routePath = sourceOf(route) ? "" : `routes[${routeIndex}].`;
+    return keepSource(route, {
+      ...route,
+      responses: route.responses.map((response, index) =>
+        response.bodyType === "FILE"
+          ? keepSource(response, {
+              ...response,
+              filePath: resolveFilePath(
+                response.filePath,
+                response,
+                sourceDir,
+                {
+                  file: sourceOf(response),
+                  path: `${routePath}responses[${index}].filePath`,
+                },
+                issues
+              ) as string,
+            })
+          : response
+      ),
+    });
+  });
+
+  const resolvedCallbacks = callbacks.map((callback, index) =>
+    callback.bodyType === "FILE"
+      ? keepSource(callback, {
+          ...callback,
+          filePath: resolveFilePath(
+            callback.filePath,
+            callback,
+            sourceDir,
+            {
+              file: sourceOf(callback),
+              // Inline callbacks come first, so the index is the one in global.ts
+              path: sourceOf(callback)?.startsWith("callbacks/")
+                ? "filePath"
+                : `callbacks[${index}].filePath`,
+            },
+            issues
+          ),
+        })
+      : callback
+  );
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return { routes: resolvedRoutes, callbacks: resolvedCallbacks };
+}
@@ -0,0 +1,126 @@
+/**
+ * Process callback files to create callbacks
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Callback } from "../types";
+import { GeneratorError, ValidationError, ValidationIssue } from "../errors";
+import { deriveUUID, toSourcePath } from "../identifiers";
+import { isOverlayFile, loadWithProfile } from "./profile-overlay";
+import { recordSource, sourceOf, withSource } from "../sources";
+
+/**
+ * Processes the callback files
+ * @param compiledDir The directory containing the compiled JavaScript files
+ * @param namespace The namespace to derive missing UUIDs in
+ * @param profile The active profile whose callback overlays are merged in
+ * @param profiles The profiles whose overlay files are left out
+ * @returns An array of callback objects
+ */
+export async function processCallbacks(
+  compiledDir: string,
+  namespace: string,
+  profile?: string,
+  profiles: string[] = []
+): Promise<Callback[]> {
+  // Use path.resolve to ensure we're using absolute paths
+  const callbacksDir = path.resolve(compiledDir, "callbacks");
+  const callbacks: Callback[] = [];
+
+  // Check if callbacks directory exists
+  if (!fs.existsSync(callbacksDir)) {
+    return callbacks;
+  }
+
+  // Get all JavaScript files in the callbacks directory, leaving out profile overlays
+  const callbackFiles = fs
+    .readdirSync(callbacksDir)
+    .filter(
+      (file) =>
+        file.endsWith(".js") && !isOverlayFile(callbacksDir, file, profiles)
+    );
+
+  // Process each callback file
+  for (const callbackFile of callbackFiles) {
+    const filePath = path.join(callbacksDir, callbackFile);
+
+    try {
+      // Load the callback configuration, copied so UUIDs derived for one
+      // environment don't stick to the module
+      const callbackConfig: Callback = {
+        ...loadWithProfile(filePath, profile),
+      };
+      recordSource(callbackConfig, compiledDir, filePath);
+
+      // Derive the callback UUID from its file path if it is not provided
+      if (!callbackConfig.uuid) {
+        callbackConfig.uuid = deriveUUID(
+          namespace,
+          "callback",
+          toSourcePath(compiledDir, filePath)
+        );
+      }
+
+      // Add callback to callbacks array
+      callbacks.push(callbackConfig);
+    } catch (error) {
+      // Generator errors already name the file they came from
+      if (error instanceof GeneratorError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new Error(
+          `Error processing callback file ${callbackFile}: ${error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  return callbacks;
+}
+
+/**
+ * Merges the callbacks defined inline in the global config with the ones
+ * from the callbacks directory
+ * @param inlineCallbacks The callbacks of the global config
+ * @param fileCallbacks The callbacks loaded from the callbacks directory
+ * @returns All callbacks, inline ones first
+ * @throws ValidationError if a callback id or UUID is defined more than once
+ */
+export function mergeCallbacks(
+  inlineCallbacks: Callback[] = [],
+  fileCallbacks: Callback[]
+): Callback[] {
+  const callbacks = [...inlineCallbacks, ...fileCallbacks];
+  const issues: ValidationIssue[] = [];
+  const byId = new Map<string, Callback>();
+  const byUuid = new Map<string, Callback>();
+
+  for (const callback of callbacks) {
+    const sameId = callback.id ? byId.get(callback.id) : undefined;
+    const sameUuid = byUuid.get(callback.uuid);
+
+    if (sameId || sameUuid) {
+      const other = (sameId || sameUuid) as Callback;
+      issues.push({
+        file: sourceOf(callback),
+        path: sameId ? "id" : "uuid",
+        message: `callback ${
+          sameId ? `id "${callback.id}"` : `UUID ${callback.uuid}`
+        } is already used by ${withSource(`callback "${other.name}"`, other)}`,
+      });
+      continue;
+    }
+
+    if (callback.id) {
+      byId.set(callback.id, callback);
+    }
+    byUuid.set(callback.uuid, callback);
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return callbacks;
+}
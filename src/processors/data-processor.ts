@@ -3,46 +3,77 @@
  */
 import * as fs from "fs-extra";
 import * as path from "path";
-import { DatabucketConfig } from "../types";
+import { DatabucketConfig, SourceFilter } from "../types";
+import { GeneratorError } from "../errors";
+import { deriveUUID, toSourcePath } from "../identifiers";
+import { isIncluded } from "./source-filter";
+import { isOverlayFile, loadWithProfile } from "./profile-overlay";
+import { recordSource } from "../sources";
 
 /**
  * Processes the data files
  * @param compiledDir The directory containing the compiled JavaScript files
+ * @param namespace The namespace to derive missing UUIDs in
+ * @param filter Selects the databuckets of the environment by file name
+ * @param profile The active profile whose databucket overlays are merged in
+ * @param profiles The profiles whose overlay files are left out
  * @returns An array of databucket objects
  */
 export async function processData(
-  compiledDir: string
-): Promise<DatabucketConfig[]> {
+  compiledDir: string,
+  namespace: string,
+  filter?: SourceFilter,
+  profile?: string,
+  profiles: string[] = []
+): Promise<DatabucketConfig<unknown>[]> {
   // Use path.resolve to ensure we're using absolute paths
   const dataDir = path.resolve(compiledDir, "data");
-  const databuckets: DatabucketConfig[] = [];
+  const databuckets: DatabucketConfig<unknown>[] = [];
 
   // Check if data directory exists
   if (!fs.existsSync(dataDir)) {
     return databuckets;
   }
 
-  // Get all JavaScript files in the data directory
+  // Get all JavaScript files in the data directory selected for the environment,
+  // leaving out profile overlays
   const dataFiles = fs
     .readdirSync(dataDir)
-    .filter((file) => file.endsWith(".js"));
+    .filter(
+      (file) =>
+        file.endsWith(".js") &&
+        !isOverlayFile(dataDir, file, profiles) &&
+        isIncluded(filter, file.replace(/\.js$/, ""))
+    );
 
   // Process each data file
   for (const dataFile of dataFiles) {
     const filePath = path.join(dataDir, dataFile);
 
     try {
-      // Load the databucket configuration
-      const databucketConfig = require(filePath).default || require(filePath);
+      // Load the databucket configuration, copied so UUIDs derived for one
+      // environment don't stick to the module
+      const databucketConfig: DatabucketConfig<unknown> = {
+        ...loadWithProfile(filePath, profile),
+      };
+      recordSource(databucketConfig, compiledDir, filePath);
 
-      // Validate that databucket UUID is provided
+      // Derive the databucket UUID from its file path if it is not provided
       if (!databucketConfig.uuid) {
-        throw new Error(`Missing UUID in databucket config for ${dataFile}`);
+        databucketConfig.uuid = deriveUUID(
+          namespace,
+          "databucket",
+          toSourcePath(compiledDir, filePath)
+        );
       }
 
       // Add databucket to databuckets array
       databuckets.push(databucketConfig);
     } catch (error) {
+      // Generator errors already name the file they came from
+      if (error instanceof GeneratorError) {
+        throw error;
+      }
       if (error instanceof Error) {
         throw new Error(
           `Error processing data file ${dataFile}: ${error.message}`
@@ -0,0 +1,184 @@
+/**
+ * Fill in Mockoon's defaults for the fields source files leave out
+ */
+import {
+  Callback,
+  GlobalConfig,
+  ResponseConfig,
+  RouteConfig,
+  RouteInput,
+  TLSOptions,
+} from "../types";
+import { keepSource } from "../sources";
+
+/**
+ * Defaults of the global configuration, as in a new Mockoon environment
+ */
+const GLOBAL_DEFAULTS: Omit<GlobalConfig, "uuid" | "tlsOptions" | "callbacks"> =
+  {
+    lastMigration: 33,
+    name: "New environment",
+    endpointPrefix: "",
+    latency: 0,
+    port: 3000,
+    hostname: "",
+    proxyMode: false,
+    proxyHost: "",
+    proxyRemovePrefix: false,
+    proxyReqHeaders: [],
+    proxyResHeaders: [],
+    cors: true,
+    headers: [],
+  };
+
+/**
+ * Defaults of the TLS options, TLS being disabled
+ */
+const TLS_DEFAULTS: TLSOptions = {
+  enabled: false,
+  type: "CERT",
+  pfxPath: "",
+  certPath: "",
+  keyPath: "",
+  caPath: "",
+  passphrase: "",
+};
+
+/**
+ * Defaults of a route, an HTTP GET route
+ */
+const ROUTE_DEFAULTS: Omit<RouteConfig, "uuid" | "endpoint" | "responses"> = {
+  type: "http",
+  documentation: "",
+  method: "get",
+  responseMode: null,
+  streamingMode: null,
+  streamingInterval: 0,
+};
+
+/**
+ * Defaults of a response, a 200 INLINE response without rules
+ */
+const RESPONSE_DEFAULTS: Omit<ResponseConfig, "uuid"> = {
+  rules: [],
+  rulesOperator: "OR",
+  statusCode: 200,
+  label: "",
+  headers: [],
+  body: "",
+  latency: 0,
+  bodyType: "INLINE",
+  filePath: "",
+  databucketID: "",
+  sendFileAsBody: false,
+  disableTemplating: false,
+  fallbackTo404: false,
+  default: false,
+  crudKey: "id",
+  callbacks: [],
+};
+
+/**
+ * Defaults of a callback, an INLINE GET request
+ */
+const CALLBACK_DEFAULTS: Omit<Callback, "uuid" | "id" | "name" | "uri"> = {
+  documentation: "",
+  method: "get",
+  headers: [],
+  body: "",
+  filePath: "",
+  sendFileAsBody: false,
+  bodyType: "INLINE",
+  databucketID: "",
+};
+
+/**
+ * Copies a configuration object with defaults for the fields it leaves out
+ * Only undefined fields are filled in, so invalid values are still reported
+ * by the validation
+ * @param config The configuration object
+ * @param defaults The default values
+ * @returns The completed copy, recorded as coming from the same source file
+ */
+function withDefaults<T extends object>(config: object, defaults: object): T {
+  const copy = { ...config } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(defaults)) {
+    if (copy[key] === undefined) {
+      // Arrays are copied so configs never share a default
+      copy[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+  return keepSource(config, copy as T);
+}
+
+/**
+ * Fills in the defaults of a route and its responses
+ * The first response becomes the default one when none is marked
+ * @param route The route, its imported databuckets and callbacks resolved
+ * @returns The completed route
+ */
+function normalizeRoute(route: RouteInput): RouteConfig {
+  const normalized = withDefaults<RouteConfig>(route, ROUTE_DEFAULTS);
+  if (!Array.isArray(route.responses)) {
+    // Left for the validation to report
+    return normalized;
+  }
+
+  const hasDefault = route.responses.some((response) => response?.default);
+  normalized.responses = route.responses.map((response, index) =>
+    typeof response === "object" && response !== null
+      ? withDefaults<ResponseConfig>(response, {
+          ...RESPONSE_DEFAULTS,
+          default: !hasDefault && index === 0,
+        })
+      : (response as ResponseConfig)
+  );
+  return normalized;
+}
+
+/**
+ * Fills in Mockoon's defaults for the fields left out of the global config,
+ * its TLS options, the routes, their responses and the callbacks, so source
+ * files only need to specify what differs
+ * @param globalConfig The global configuration
+ * @param routes The routes, their imported databuckets and callbacks resolved
+ * @param callbacks The inline and file callbacks
+ * @returns The completed configuration objects
+ */
+export function normalizeDefaults(
+  globalConfig: GlobalConfig,
+  routes: RouteInput[],
+  callbacks: Callback[]
+): {
+  globalConfig: GlobalConfig;
+  routes: RouteConfig[];
+  callbacks: Callback[];
+} {
+  const normalizedGlobal = withDefaults<GlobalConfig>(
+    globalConfig,
+    GLOBAL_DEFAULTS
+  );
+  const { tlsOptions } = globalConfig;
+  if (
+    tlsOptions === undefined ||
+    (typeof tlsOptions === "object" &&
+      tlsOptions !== null &&
+      !Array.isArray(tlsOptions))
+  ) {
+    normalizedGlobal.tlsOptions = withDefaults<TLSOptions>(
+      tlsOptions || {},
+      TLS_DEFAULTS
+    );
+  }
+
+  return {
+    globalConfig: normalizedGlobal,
+    routes: routes.map(normalizeRoute),
+    callbacks: callbacks.map((callback) =>
+      withDefaults<Callback>(callback, {
+        ...CALLBACK_DEFAULTS,
+        name: callback.id,
+      })
+    ),
+  };
+}
@@ -3,95 +3,253 @@
  */
 import * as fs from "fs-extra";
 import * as path from "path";
-import { FolderConfig, RouteConfig } from "../types";
+import {
+  FolderConfig,
+  ResponseInput,
+  RouteInput,
+  SourceFilter,
+} from "../types";
+import { deriveUUID, toSourcePath } from "../identifiers";
+import { isExcluded, isIncluded } from "./source-filter";
+import { isOverlayFile, loadWithProfile } from "./profile-overlay";
+import { recordSource } from "../sources";
 
 /**
  * Interface for the result of processing features
  */
 interface FeatureProcessingResult {
   folders: FolderConfig[];
-  routes: RouteConfig[];
+  // routes as written in the source files, with their UUIDs filled in
+  routes: RouteInput[];
 }
 
 /**
- * Processes the feature files
+ * State shared while walking the features directory
+ */
+interface FeatureContext {
+  compiledDir: string;
+  featuresDir: string;
+  namespace: string;
+  filter?: SourceFilter;
+  profile?: string;
+  profiles: string[];
+  result: FeatureProcessingResult;
+}
+
+/**
+ * Loads a route file and fills in any UUIDs it leaves out
+ * @param filePath The path to the compiled route file
  * @param compiledDir The directory containing the compiled JavaScript files
- * @returns An object containing the folders and routes
+ * @param namespace The namespace to derive missing UUIDs in
+ * @param profile The active profile whose route overlay is merged in
+ * @returns The route configuration, with its UUID filled in
  */
-export async function processFeatures(
-  compiledDir: string
-): Promise<FeatureProcessingResult> {
-  // Use path.resolve to ensure we're using absolute paths
-  const featuresDir = path.resolve(compiledDir, "features");
-  const folders: FolderConfig[] = [];
-  const routes: RouteConfig[] = [];
+function loadRoute(
+  filePath: string,
+  compiledDir: string,
+  namespace: string,
+  profile?: string
+): RouteInput & { uuid: string } {
+  // Load the route configuration with the profile overlay applied
+  const loadedRoute = loadWithProfile(filePath, profile);
+  const sourcePath = toSourcePath(compiledDir, filePath);
 
-  // Check if features directory exists
-  if (!fs.existsSync(featuresDir)) {
-    return { folders, routes };
+  // Copy the route so UUIDs derived for one environment don't stick to the module
+  // Derive the route UUID from its file path if it is not provided
+  const routeConfig: RouteInput & { uuid: string } = {
+    ...loadedRoute,
+    uuid: loadedRoute.uuid || deriveUUID(namespace, "route", sourcePath),
+  };
+  recordSource(routeConfig, compiledDir, filePath);
+
+  // Derive response UUIDs from the route file and their label, so adding or
+  // moving a response leaves the others unchanged. Responses without a label,
+  // or sharing it with another response, fall back to their position
+  if (routeConfig.responses) {
+    const labels = routeConfig.responses.map(
+      (response: ResponseInput) => response.label
+    );
+    routeConfig.responses = routeConfig.responses.map(
+      (response: ResponseInput, index: number) => {
+        const { label } = response;
+        const key =
+          label && labels.indexOf(label) === labels.lastIndexOf(label)
+            ? JSON.stringify(label)
+            : index;
+        const copy = {
+          ...response,
+          uuid:
+            response.uuid ||
+            deriveUUID(namespace, "response", `${sourcePath}#${key}`),
+        };
+        recordSource(copy, compiledDir, filePath);
+        return copy;
+      }
+    );
   }
 
-  // Get all subdirectories in the features directory
-  const featureDirs = fs
-    .readdirSync(featuresDir)
-    .filter((item) => fs.statSync(path.join(featuresDir, item)).isDirectory());
-
-  // Process each feature directory
-  for (const featureDir of featureDirs) {
-    const featurePath = path.join(featuresDir, featureDir);
-
-    // Create folder object
-    const folderConfigPath = path.join(featurePath, "folder.js");
-    let folder: FolderConfig;
-
-    if (fs.existsSync(folderConfigPath)) {
-      // If folder.js exists, use it for folder configuration
-      folder = require(folderConfigPath).default || require(folderConfigPath);
-    } else {
-      // Otherwise, create a basic folder object with the directory name
-      folder = {
-        uuid: require("uuid").v4(), // Generate a UUID for the folder
-        name: featureDir
-          .replace(/-/g, " ")
-          .replace(/\b\w/g, (l) => l.toUpperCase()), // Convert kebab-case to Title Case
-        children: [],
-      };
-    }
+  return routeConfig;
+}
 
-    // Validate that folder UUID is provided
-    if (!folder.uuid) {
-      throw new Error(`Missing UUID in folder config for ${featureDir}`);
-    }
+/**
+ * Reads the optional order of a route file or feature directory
+ * @param itemPath The path to the compiled route file or feature directory
+ * @returns The order, or undefined if none is set
+ */
+function readOrder(itemPath: string): number | undefined {
+  const configPath = fs.statSync(itemPath).isDirectory()
+    ? path.join(itemPath, "folder.js")
+    : itemPath;
 
-    // Get all JavaScript files in the feature directory (excluding folder.js)
-    const featureFiles = fs
-      .readdirSync(featurePath)
-      .filter((file) => file.endsWith(".js") && file !== "folder.js");
+  if (!configPath.endsWith(".js") || !fs.existsSync(configPath)) {
+    return undefined;
+  }
 
-    // Process each feature file
-    for (const featureFile of featureFiles) {
-      const filePath = path.join(featurePath, featureFile);
+  const config = require(configPath).default || require(configPath);
+  return typeof config.order === "number" ? config.order : undefined;
+}
 
-      // Load the route configuration
-      const routeConfig = require(filePath).default || require(filePath);
+/**
+ * Lists the items of a directory with ordered items first
+ * Items without an order keep their directory order after the ordered ones
+ * Profile overlays are left out, they are merged into their base files
+ * @param dirPath The directory to list
+ * @param profiles The profiles whose overlay files are left out
+ * @returns The item names in processing order
+ */
+function readOrderedDir(dirPath: string, profiles: string[]): string[] {
+  const items = fs
+    .readdirSync(dirPath)
+    .filter(
+      (item) => item !== "folder.js" && !isOverlayFile(dirPath, item, profiles)
+    )
+    .map((item, index) => ({
+      item,
+      index,
+      order: readOrder(path.join(dirPath, item)),
+    }));
 
-      // Validate that route UUID is provided
-      if (!routeConfig.uuid) {
-        throw new Error(
-          `Missing UUID in route config for ${featureDir}/${featureFile}`
-        );
+  return items
+    .sort((a, b) => {
+      if (a.order !== undefined && b.order !== undefined) {
+        return a.order - b.order || a.index - b.index;
+      }
+      if (a.order !== undefined) {
+        return -1;
       }
+      if (b.order !== undefined) {
+        return 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+/**
+ * Checks whether a directory holds a folder.ts, route files or subdirectories
+ * that do, so directories holding only fixtures or assets aren't folders
+ * @param dirPath The compiled directory to check
+ * @param profiles The profiles whose overlay files are left out
+ * @returns True if the directory holds sources
+ */
+function containsSources(dirPath: string, profiles: string[]): boolean {
+  if (fs.existsSync(path.join(dirPath, "folder.js"))) {
+    return true;
+  }
+
+  return fs.readdirSync(dirPath).some((item) => {
+    const itemPath = path.join(dirPath, item);
+    return fs.statSync(itemPath).isDirectory()
+      ? containsSources(itemPath, profiles)
+      : item.endsWith(".js") && !isOverlayFile(dirPath, item, profiles);
+  });
+}
+
+/**
+ * Processes a feature directory and its subdirectories into nested folders
+ * @param featurePath The path to the compiled feature directory
+ * @param context The state shared while walking the features directory
+ * @returns The folder for the directory, or undefined if the environment's
+ * filter leaves it out or the directory holds no sources
+ */
+function processFeatureDir(
+  featurePath: string,
+  context: FeatureContext
+): FolderConfig | undefined {
+  const {
+    compiledDir,
+    featuresDir,
+    namespace,
+    filter,
+    profile,
+    profiles,
+    result,
+  } = context;
+  const featureSourcePath = toSourcePath(featuresDir, featurePath);
+
+  if (
+    isExcluded(filter, featureSourcePath) ||
+    !containsSources(featurePath, profiles)
+  ) {
+    return undefined;
+  }
+
+  // Create folder object
+  const folderConfigPath = path.join(featurePath, "folder.js");
+  let folder: FolderConfig;
+
+  if (fs.existsSync(folderConfigPath)) {
+    // If folder.js exists, use it for folder configuration
+    const folderConfig =
+      require(folderConfigPath).default || require(folderConfigPath);
+
+    // Copy the children so repeated builds don't add to the loaded module
+    folder = { ...folderConfig, children: [...(folderConfig.children || [])] };
+    recordSource(folder, compiledDir, folderConfigPath);
+  } else {
+    // Otherwise, create a basic folder object with the directory name
+    folder = {
+      uuid: "",
+      name: path
+        .basename(featurePath)
+        .replace(/-/g, " ")
+        .replace(/\b\w/g, (l) => l.toUpperCase()), // Convert kebab-case to Title Case
+      children: [],
+    };
+  }
+
+  // Derive the folder UUID from its directory if it is not provided
+  if (!folder.uuid) {
+    folder.uuid = deriveUUID(
+      namespace,
+      "folder",
+      toSourcePath(compiledDir, featurePath)
+    );
+  }
 
-      // Validate that all responses have UUIDs
-      if (routeConfig.responses) {
-        for (const response of routeConfig.responses) {
-          if (!response.uuid) {
-            throw new Error(
-              `Missing UUID in response for route ${featureDir}/${featureFile}`
-            );
-          }
-        }
+  // Add folder to folders array before its subfolders
+  const folderIndex = result.folders.length;
+  result.folders.push(folder);
+
+  // Route files and subdirectories become children, sorted by their order
+  for (const item of readOrderedDir(featurePath, profiles)) {
+    const itemPath = path.join(featurePath, item);
+
+    if (fs.statSync(itemPath).isDirectory()) {
+      const childFolder = processFeatureDir(itemPath, context);
+
+      // Add subfolder reference to folder's children
+      if (childFolder) {
+        folder.children.push({
+          type: "folder",
+          uuid: childFolder.uuid,
+        });
       }
+    } else if (
+      item.endsWith(".js") &&
+      isIncluded(filter, toSourcePath(featuresDir, itemPath))
+    ) {
+      const routeConfig = loadRoute(itemPath, compiledDir, namespace, profile);
 
       // Add route reference to folder's children
       folder.children.push({
@@ -100,12 +258,73 @@ export async function processFeatures(
       });
 
       // Add route to routes array
-      routes.push(routeConfig);
+      result.routes.push(routeConfig);
     }
+  }
+
+  // Drop folders left empty by the filter unless they were included themselves
+  if (
+    filter?.include?.length &&
+    folder.children.length === 0 &&
+    !isIncluded(filter, featureSourcePath)
+  ) {
+    result.folders.splice(folderIndex, 1);
+    return undefined;
+  }
+
+  return folder;
+}
 
-    // Add folder to folders array
-    folders.push(folder);
+/**
+ * Processes the feature files
+ * Every directory under features/, at any depth, becomes a folder, except
+ * directories without route files or folder.ts, such as fixture directories
+ * @param compiledDir The directory containing the compiled JavaScript files
+ * @param namespace The namespace to derive missing UUIDs in
+ * @param filter Selects the folders and routes of the environment
+ * @param profile The active profile whose route overlays are merged in
+ * @param profiles The profiles whose overlay files are left out
+ * @returns An object containing the folders and routes
+ */
+export async function processFeatures(
+  compiledDir: string,
+  namespace: string,
+  filter?: SourceFilter,
+  profile?: string,
+  profiles: string[] = []
+): Promise<FeatureProcessingResult> {
+  // Use path.resolve to ensure we're using absolute paths
+  const featuresDir = path.resolve(compiledDir, "features");
+  const result: FeatureProcessingResult = { folders: [], routes: [] };
+
+  // Check if features directory exists
+  if (!fs.existsSync(featuresDir)) {
+    return result;
+  }
+
+  const context: FeatureContext = {
+    compiledDir,
+    featuresDir,
+    namespace,
+    filter,
+    profile,
+    profiles,
+    result,
+  };
+
+  for (const item of readOrderedDir(featuresDir, profiles)) {
+    const itemPath = path.join(featuresDir, item);
+
+    if (fs.statSync(itemPath).isDirectory()) {
+      processFeatureDir(itemPath, context);
+    } else if (
+      item.endsWith(".js") &&
+      isIncluded(filter, toSourcePath(featuresDir, itemPath))
+    ) {
+      // Route files placed directly in the features directory are root-level routes
+      result.routes.push(loadRoute(itemPath, compiledDir, namespace, profile));
+    }
   }
 
-  return { folders, routes };
+  return result;
 }
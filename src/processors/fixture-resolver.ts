@@ -0,0 +1,167 @@
+/**
+ * Replace fixture references in bodies and databucket values with the
+ * contents of the fixture files
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+import { DatabucketConfig, RouteConfig } from "../types";
+import { ValidationError, ValidationIssue } from "../errors";
+import { fixturePath, isFixture, loadFixture } from "../fixtures";
+import { isTemplate } from "../templates";
+import { keepSource, sourceOf } from "../sources";
+
+/**
+ * Replaces the fixture references in a value, at any depth
+ * @param value The body or databucket value
+ * @param baseDir The compiled directory of the source file, fixtures are
+ * copied next to the compiled files
+ * @param location The source file and path of the value, for issues
+ * @param issues Receives the fixtures that cannot be read
+ * @returns The value with fixture contents inlined
+ */
+async function inlineFixtures(
+  value: unknown,
+  baseDir: string,
+  location: { file?: string; path: string },
+  issues: ValidationIssue[]
+): Promise<unknown> {
+  if (isFixture(value)) {
+    const relativePath = fixturePath(value);
+    const filePath = path.resolve(baseDir, relativePath);
+
+    if (!fs.existsSync(filePath)) {
+      issues.push({
+        ...location,
+        message: `fixture ${relativePath} not found`,
+      });
+      return value;
+    }
+    try {
+      return await loadFixture(filePath);
+    } catch (error) {
+      issues.push({
+        ...location,
+        message: `fixture ${relativePath} cannot be read: ${
+          error instanceof Error ? error.message : error
+        }`,
+      });
+      return value;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return Promise.all(
+      value.map((item, index) =>
+        inlineFixtures(
+          item,
+          baseDir,
+          { ...location, path: `${location.path}[${index}]` },
+          issues
+        )
+      )
+    );
+  }
+
+  // Only plain objects are walked, templates are written as they are
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    !isTemplate(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [
+        key,
+        await inlineFixtures(
+          item,
+          baseDir,
+          { ...location, path: `${location.path}.${key}` },
+          issues
+        ),
+      ])
+    );
+    return Object.fromEntries(entries);
+  }
+
+  return value;
+}
+
+/**
+ * Gets the compiled directory of the source file an object was loaded from
+ * @param config The configuration object
+ * @param compiledDir The directory containing the compiled JavaScript files
+ * @returns The directory relative paths of its fixtures are resolved against
+ */
+function baseDirOf(config: object, compiledDir: string): string {
+  const file = sourceOf(config);
+  return file ? path.join(compiledDir, path.dirname(file)) : compiledDir;
+}
+
+/**
+ * Inlines the fixtures referenced by response bodies and databucket values
+ * @param compiledDir The directory containing the compiled files and fixtures
+ * @param routes The routes
+ * @param databuckets The databuckets
+ * @returns Copies of the routes and databuckets with the fixture contents
+ * @throws ValidationError if a fixture is missing or cannot be parsed
+ */
+export async function resolveFixtures(
+  compiledDir: string,
+  routes: RouteConfig[],
+  databuckets: DatabucketConfig<unknown>[]
+): Promise<{
+  routes: RouteConfig[];
+  databuckets: DatabucketConfig<unknown>[];
+}> {
+  const issues: ValidationIssue[] = [];
+
+  const resolvedRoutes = await Promise.all(
+    routes.map(async (route, routeIndex) => {
+      if (!route.responses) {
+        return route;
+      }
+
+      const baseDir = baseDirOf(route, compiledDir);
+      const routePath = sourceOf(route) ? "" : `routes[${routeIndex}].`;
+      const responses = await Promise.all(
+        route.responses.map(async (response, index) =>
+          keepSource(response, {
+            ...response,
+            body: await inlineFixtures(
+              response.body,
+              baseDir,
+              {
+                file: sourceOf(response),
+                path: `${routePath}responses[${index}].body`,
+              },
+              issues
+            ),
+          })
+        )
+      );
+      return keepSource(route, { ...route, responses });
+    })
+  );
+
+  const resolvedDatabuckets = await Promise.all(
+    databuckets.map(async (databucket, index) =>
+      keepSource(databucket, {
+        ...databucket,
+        value: await inlineFixtures(
+          databucket.value,
+          baseDirOf(databucket, compiledDir),
+          {
+            file: sourceOf(databucket),
+            path: sourceOf(databucket) ? "value" : `data[${index}].value`,
+          },
+          issues
+        ),
+      })
+    )
+  );
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return { routes: resolvedRoutes, databuckets: resolvedDatabuckets };
+}
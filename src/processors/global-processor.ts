@@ -1,37 +1,133 @@
 /**
- * Process global.js to extract environment-level settings
+ * Process global.js (and other environment files) to extract environment-level settings
  */
 import * as fs from "fs-extra";
 import * as path from "path";
-import { GlobalConfig } from "../types";
+import { Callback, GlobalConfig } from "../types";
+import { GeneratorError, MissingUUIDError } from "../errors";
+import { createNamespace, deriveUUID } from "../identifiers";
+import { loadWithProfile } from "./profile-overlay";
+import { recordSource } from "../sources";
+
+/**
+ * Name of the environment defined by global.js
+ */
+export const DEFAULT_ENVIRONMENT = "default";
+
+/**
+ * A global config file defining one environment
+ */
+export interface EnvironmentSource {
+  // The environment name ("default" for global.js)
+  name: string;
+  // The global config file, relative to the compiled directory
+  file: string;
+}
+
+/**
+ * Finds the environments defined in the compiled directory: global.js,
+ * global-<name>.js and environments/<name>.js
+ * @param compiledDir The directory containing the compiled JavaScript files
+ * @returns The environments, the default environment first
+ */
+export function findEnvironments(compiledDir: string): EnvironmentSource[] {
+  const environments: EnvironmentSource[] = [];
+
+  for (const file of fs.readdirSync(compiledDir).sort()) {
+    const match = file.match(/^global(?:-([A-Za-z0-9_-]+))?\.js$/);
+    if (match) {
+      environments.push({ name: match[1] || DEFAULT_ENVIRONMENT, file });
+    }
+  }
+
+  const environmentsDir = path.join(compiledDir, "environments");
+  if (fs.existsSync(environmentsDir)) {
+    for (const file of fs.readdirSync(environmentsDir).sort()) {
+      const match = file.match(/^([A-Za-z0-9_-]+)\.js$/);
+      if (match) {
+        environments.push({ name: match[1], file: `environments/${file}` });
+      }
+    }
+  }
+
+  // Each environment is written to its own file, so names must be unique
+  const names = new Set<string>();
+  for (const environment of environments) {
+    if (names.has(environment.name)) {
+      throw new GeneratorError(
+        `Environment "${environment.name}" is defined more than once`
+      );
+    }
+    names.add(environment.name);
+  }
+
+  if (environments.length === 0) {
+    throw new GeneratorError(
+      `global.js not found at path: ${path.resolve(compiledDir, "global.js")}`
+    );
+  }
+
+  return environments.sort(
+    (a, b) =>
+      Number(b.name === DEFAULT_ENVIRONMENT) -
+      Number(a.name === DEFAULT_ENVIRONMENT)
+  );
+}
 
 /**
  * Processes the global configuration file
  * @param compiledDir The directory containing the compiled JavaScript files
+ * @param file The global config file, relative to the compiled directory
+ * @param profile The active profile whose overlay (e.g. global.ci.js) is merged in
  * @returns The global configuration object
  */
 export async function processGlobalConfig(
-  compiledDir: string
+  compiledDir: string,
+  file = "global.js",
+  profile?: string
 ): Promise<GlobalConfig> {
-  const globalPath = path.resolve(compiledDir, "global.js");
+  const globalPath = path.resolve(compiledDir, file);
 
-  // Check if global.js exists
+  // Check if the global config exists
   if (!fs.existsSync(globalPath)) {
-    throw new Error(`global.js not found at path: ${globalPath}`);
+    throw new GeneratorError(`${file} not found at path: ${globalPath}`);
   }
 
   try {
-    // Load the global config
+    // Load the global config with the profile overlay applied
     // We need to use dynamic import to load the compiled JavaScript file
-    const globalConfig = require(globalPath).default || require(globalPath);
+    const globalConfig: GlobalConfig = loadWithProfile(globalPath, profile);
 
     // Validate that UUID is provided
     if (!globalConfig.uuid) {
-      throw new Error("Missing UUID in global config");
+      throw new MissingUUIDError(`global config (${file})`);
     }
 
-    return globalConfig;
+    // Derive the UUIDs of inline callbacks from their ids if not provided
+    const namespace = createNamespace(globalConfig.uuid);
+    const callbacks = globalConfig.callbacks?.map(
+      (callback: Callback, index: number) => {
+        const copy = {
+          ...callback,
+          uuid:
+            callback.uuid ||
+            deriveUUID(namespace, "callback", `global/${callback.id || index}`),
+        };
+        recordSource(copy, compiledDir, globalPath);
+        return copy;
+      }
+    );
+
+    const result = callbacks
+      ? { ...globalConfig, callbacks }
+      : { ...globalConfig };
+    recordSource(result, compiledDir, globalPath);
+    return result;
   } catch (error) {
+    // Generator errors already describe where they came from
+    if (error instanceof GeneratorError) {
+      throw error;
+    }
     if (error instanceof Error) {
       throw new Error(`Error processing global config: ${error.message}`);
     }
@@ -0,0 +1,100 @@
+/**
+ * Apply profile overlay files (e.g. global.ci.ts) on top of their base files
+ */
+import * as fs from "fs-extra";
+import * as path from "path";
+
+/**
+ * Checks whether a value is a plain object that should be merged key by key
+ * @param value The value to check
+ * @returns True for plain objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Deep-merges an overlay onto a base object without modifying either
+ * Objects are merged key by key, arrays and other values are replaced, and
+ * undefined values in the overlay are ignored
+ * @param base The base object
+ * @param overlay The overlay object
+ * @returns The merged object
+ */
+export function deepMerge<T>(base: T, overlay: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) {
+    return (overlay === undefined ? base : overlay) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    if (value !== undefined) {
+      merged[key] = deepMerge(merged[key], value);
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Lists the profiles whose overlay files are left out of the sources
+ * @param declared The profiles declared by the global config
+ * @param profile The active profile, if any
+ * @returns The declared profiles and the active one
+ */
+export function overlayProfiles(
+  declared: string[] = [],
+  profile?: string
+): string[] {
+  return profile && !declared.includes(profile)
+    ? [...declared, profile]
+    : declared;
+}
+
+/**
+ * Checks whether a compiled file is a profile overlay of another file in the
+ * same directory (e.g. "get-user.ci.js" next to "get-user.js")
+ * Only files named after one of the profiles are overlays, so a file such as
+ * "users.v2.js" next to "users.js" is still read on its own
+ * @param dirPath The directory containing the file
+ * @param file The file name
+ * @param profiles The declared profiles and the active one
+ * @returns True if the file is an overlay
+ */
+export function isOverlayFile(
+  dirPath: string,
+  file: string,
+  profiles: string[]
+): boolean {
+  const match = file.match(/^(.+)\.([^.]+)\.js$/);
+  return (
+    !!match &&
+    profiles.includes(match[2]) &&
+    fs.existsSync(path.join(dirPath, `${match[1]}.js`))
+  );
+}
+
+/**
+ * Loads a compiled config file and merges the overlay of the active profile
+ * @param filePath The path to the compiled base file
+ * @param profile The active profile, if any
+ * @returns The merged configuration (a copy when an overlay was applied)
+ */
+export function loadWithProfile(filePath: string, profile?: string): any {
+  const config = require(filePath).default || require(filePath);
+  if (!profile) {
+    return config;
+  }
+
+  const overlayPath = filePath.replace(/\.js$/, `.${profile}.js`);
+  if (!fs.existsSync(overlayPath)) {
+    return config;
+  }
+
+  const overlay = require(overlayPath).default || require(overlayPath);
+  return deepMerge(config, overlay);
+}
@@ -0,0 +1,101 @@
+/**
+ * Resolve imported databuckets and callbacks to the identifiers Mockoon uses
+ */
+import { Callback, ResponseInput, RouteInput } from "../types";
+import { ValidationError, ValidationIssue } from "../errors";
+import { keepSource, sourceOf } from "../sources";
+
+/**
+ * Resolves a response's imported databucket and callbacks
+ * @param response The response to resolve
+ * @param callbacksById The callbacks of the environment by id
+ * @param path The path to the response, for issues
+ * @param issues Receives the references that cannot be resolved
+ * @returns A copy of the response with databucketID and callback UUIDs set
+ */
+function resolveResponse(
+  response: ResponseInput,
+  callbacksById: Map<string, Callback>,
+  path: string,
+  issues: ValidationIssue[]
+): ResponseInput {
+  const { databucket, ...resolved } = response;
+  const file = sourceOf(response);
+
+  // Imported databuckets are referred to by their id
+  if (databucket) {
+    if (resolved.databucketID && resolved.databucketID !== databucket.id) {
+      issues.push({
+        file,
+        path: `${path}.databucket`,
+        message: `refers to databucket "${databucket.id}" but databucketID is "${resolved.databucketID}"`,
+      });
+    }
+    resolved.databucketID = databucket.id;
+  }
+
+  // Imported callbacks are looked up by id, their UUID may be derived
+  if (resolved.callbacks) {
+    resolved.callbacks = resolved.callbacks.map((invocation, index) => {
+      if (!("callback" in invocation)) {
+        return invocation;
+      }
+
+      const { callback, latency } = invocation;
+      const target = callbacksById.get(callback.id);
+      if (!target) {
+        issues.push({
+          file,
+          path: `${path}.callbacks[${index}].callback`,
+          message: `refers to callback "${callback.id}", which is not part of the environment`,
+        });
+      }
+      return { uuid: target?.uuid || callback.uuid || "", latency };
+    });
+  }
+
+  return keepSource(response, resolved);
+}
+
+/**
+ * Resolves the databuckets and callbacks that responses import instead of
+ * naming them by identifier
+ * @param routes The routes to resolve
+ * @param callbacks The callbacks of the environment
+ * @returns Copies of the routes that refer to databuckets and callbacks by identifier
+ * @throws ValidationError if an imported callback is not part of the environment
+ */
+export async function resolveReferences(
+  routes: RouteInput[],
+  callbacks: Callback[] = []
+): Promise<RouteInput[]> {
+  const callbacksById = new Map(
+    callbacks.map((callback) => [callback.id, callback])
+  );
+  const issues: ValidationIssue[] = [];
+
+  const resolved = routes.map((route, routeIndex) => {
+    if (!route.responses) {
+      return route;
+    }
+
+    // Routes not loaded from a source file are located by their position
+    const routePath = sourceOf(route) ? "" : `routes[${routeIndex}].`;
+    return keepSource(route, {
+      ...route,
+      responses: route.responses.map((response, index) =>
+        resolveResponse(
+          response,
+          callbacksById,
+          `${routePath}responses[${index}]`,
+          issues
+        )
+      ),
+    });
+  });
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return resolved;
+}
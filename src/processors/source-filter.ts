@@ -0,0 +1,67 @@
+/**
+ * Select source files for an environment with include/exclude patterns
+ */
+import { minimatch } from "minimatch";
+import { SourceFilter } from "../types";
+
+/**
+ * Checks whether a path matches any of the patterns
+ * @param sourcePath The path relative to the filtered directory
+ * @param patterns The glob patterns
+ * @returns True if a pattern matches
+ */
+function matchesAny(sourcePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => minimatch(sourcePath, pattern));
+}
+
+/**
+ * Lists a path and all its parent paths, outermost first
+ * @param sourcePath The path (e.g. "billing/invoices/get")
+ * @returns The path and its ancestors (e.g. "billing", "billing/invoices", ...)
+ */
+function withAncestors(sourcePath: string): string[] {
+  const segments = sourcePath.split("/");
+  return segments.map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+/**
+ * Checks whether a path is excluded by the filter
+ * A path is excluded when it or one of its parent directories matches
+ * @param filter The environment's filter
+ * @param sourcePath The path relative to the filtered directory, without extension
+ * @returns True if the path is excluded
+ */
+export function isExcluded(
+  filter: SourceFilter | undefined,
+  sourcePath: string
+): boolean {
+  if (!filter?.exclude?.length) {
+    return false;
+  }
+  return withAncestors(sourcePath).some((item) =>
+    matchesAny(item, filter.exclude!)
+  );
+}
+
+/**
+ * Checks whether a path is selected by the filter
+ * A path is included when it or one of its parent directories matches an
+ * include pattern (or there are none) and it is not excluded
+ * @param filter The environment's filter
+ * @param sourcePath The path relative to the filtered directory, without extension
+ * @returns True if the path is included
+ */
+export function isIncluded(
+  filter: SourceFilter | undefined,
+  sourcePath: string
+): boolean {
+  if (isExcluded(filter, sourcePath)) {
+    return false;
+  }
+  if (!filter?.include?.length) {
+    return true;
+  }
+  return withAncestors(sourcePath).some((item) =>
+    matchesAny(item, filter.include!)
+  );
+}
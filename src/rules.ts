@@ -0,0 +1,117 @@
+/**
+ * Typed builders for response rules
+ */
+import {
+  DatabucketConfig,
+  Methods,
+  ResponseRule,
+  ResponseRuleOperators,
+  ResponseRuleTargets,
+} from "./types";
+
+/**
+ * Values a rule can compare against, written to the rule as text
+ */
+type RuleValue = string | number | boolean;
+
+/**
+ * The operators available on a rule target
+ */
+export interface RuleCondition<T extends RuleValue = RuleValue> {
+  // The value equals the given one
+  equals(value: T): ResponseRule;
+  // The value matches the expression, case-insensitively with the "i" flag
+  regex(pattern: RegExp | string): ResponseRule;
+  // The value is null or missing
+  isNull(): ResponseRule;
+  // The value is an empty array
+  isEmptyArray(): ResponseRule;
+  // The value is an array containing the given item
+  arrayIncludes(item: RuleValue): ResponseRule;
+  // The value is valid against the JSON schema held by a databucket
+  validJsonSchema(databucket: DatabucketConfig<unknown> | string): ResponseRule;
+}
+
+/**
+ * Builds the operators of a rule target
+ * @param target The rule target
+ * @param modifier The property, header, cookie or path the rule reads
+ * @returns The operators producing complete rules
+ */
+function condition<T extends RuleValue>(
+  target: ResponseRuleTargets,
+  modifier = ""
+): RuleCondition<T> {
+  const build = (
+    operator: ResponseRuleOperators,
+    value: RuleValue = ""
+  ): ResponseRule => ({
+    target,
+    modifier,
+    value: String(value),
+    invert: false,
+    operator,
+  });
+
+  return {
+    equals: (value) => build("equals", value),
+    regex: (pattern) => {
+      if (typeof pattern === "string") {
+        return build("regex", pattern);
+      }
+      // Mockoon only has a case-insensitive variant of its regex operator
+      if (pattern.flags.replace("i", "")) {
+        throw new Error(
+          `Rule regex ${pattern} uses flags Mockoon doesn't support, only "i" is allowed`
+        );
+      }
+      return build(
+        pattern.flags.includes("i") ? "regex_i" : "regex",
+        pattern.source
+      );
+    },
+    isNull: () => build("null"),
+    isEmptyArray: () => build("empty_array"),
+    arrayIncludes: (item) => build("array_includes", item),
+    validJsonSchema: (databucket) =>
+      build(
+        "valid_json_schema",
+        typeof databucket === "string" ? databucket : databucket.id
+      ),
+  };
+}
+
+/**
+ * Entry points of the rule builders, one per rule target, e.g.
+ * rule.query("filter").equals("active") or
+ * rule.header("Authorization").regex(/^Bearer /)
+ */
+export const rule = {
+  // A property of the request body, e.g. "user.name" or "$.items[0]"
+  // (default: the whole body)
+  body: (path = "") => condition("body", path),
+  // A query parameter, e.g. "filter" or "page.size" (default: the whole query)
+  query: (name = "") => condition("query", name),
+  header: (name: string) => condition("header", name),
+  cookie: (name: string) => condition("cookie", name),
+  // A route parameter, e.g. "id" for users/:id
+  params: (name: string) => condition("params", name),
+  path: () => condition("path"),
+  method: () => condition<`${Methods}`>("method"),
+  requestNumber: () => condition<number>("request_number"),
+  // A global variable, optionally followed by a path, e.g. "user.name"
+  globalVar: (name: string) => condition("global_var", name),
+  // A databucket id, optionally followed by a path, e.g. "users.0.name"
+  dataBucket: (path: string) => condition("data_bucket", path),
+  // The result of a Handlebars template, e.g. "{{urlParam 'id'}}"
+  templating: (template: string) => condition("templating", template),
+};
+
+/**
+ * Inverts a rule, so it matches when the condition doesn't hold
+ * @param responseRule The rule to invert
+ * @returns A copy of the rule with its invert flag toggled
+ */
+export function not(responseRule: ResponseRule): ResponseRule {
+  return { ...responseRule, invert: !responseRule.invert };
+}
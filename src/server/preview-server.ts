@@ -0,0 +1,398 @@
+/**
+ * Serve a generated config for smoke tests, without the Mockoon CLI
+ */
+import * as http from "http";
+import * as fs from "fs-extra";
+import * as path from "path";
+import {
+  HeaderConfig,
+  MockoonConfig,
+  ResponseConfig,
+  RouteConfig,
+} from "../types";
+import { Logger, silentLogger } from "../logger";
+import { describeRoute } from "../analyzers/routes";
+import { isTemplatedPath } from "../processors/asset-resolver";
+import {
+  SUPPORTED_RULE_OPERATORS,
+  SUPPORTED_RULE_TARGETS,
+  resolveResponse,
+} from "./response-resolver";
+
+/**
+ * Options for the preview server
+ */
+export interface PreviewServerOptions {
+  // Receives the warnings and a line per request (default: no logging)
+  logger?: Logger;
+  // Port to listen on (default: the config's port)
+  port?: number;
+}
+
+/**
+ * A running preview server
+ */
+export interface PreviewServer {
+  // The port the server listens on
+  port: number;
+  // Base URL of the environment, endpoint prefix included
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Headers added to every response when CORS is enabled, unless the
+ * environment or the response sets them
+ */
+const CORS_HEADERS: HeaderConfig[] = [
+  { key: "Access-Control-Allow-Origin", value: "*" },
+  {
+    key: "Access-Control-Allow-Methods",
+    value: "GET,POST,PUT,PATCH,DELETE,HEAD,OPTIONS",
+  },
+  {
+    key: "Access-Control-Allow-Headers",
+    value:
+      "Content-Type, Origin, Accept, Authorization, Content-Length, X-Requested-With",
+  },
+];
+
+/**
+ * Content type of the responses that neither set one nor serve a file of a
+ * known type, as in the environments Mockoon creates
+ */
+const DEFAULT_CONTENT_TYPE = "application/json";
+
+/**
+ * Content types of the files served by FILE bodies, by extension
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".html": "text/html",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".css": "text/css",
+  ".js": "application/javascript",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+};
+
+/**
+ * Lists the features of a config the preview server doesn't support
+ * @param config The Mockoon configuration
+ * @returns A description of every unsupported feature in use
+ */
+export function findUnsupportedFeatures(config: MockoonConfig): string[] {
+  const features: string[] = [];
+
+  if (config.proxyMode) {
+    features.push("proxy mode");
+  }
+  if (config.tlsOptions?.enabled) {
+    features.push("TLS");
+  }
+
+  for (const route of config.routes) {
+    const name = describeRoute(route);
+    if (route.type !== "http") {
+      features.push(`${route.type} routes (${name})`);
+      continue;
+    }
+
+    (route.responses || []).forEach((response, index) => {
+      const label = `${name} ${
+        response.label ? JSON.stringify(response.label) : `#${index}`
+      }`;
+
+      for (const rule of response.rules || []) {
+        if (!SUPPORTED_RULE_TARGETS.includes(rule.target)) {
+          features.push(`rule target "${rule.target}" (${label})`);
+        }
+        if (!SUPPORTED_RULE_OPERATORS.includes(rule.operator)) {
+          features.push(`rule operator "${rule.operator}" (${label})`);
+        }
+      }
+      if ((response.callbacks || []).length > 0) {
+        features.push(`callbacks (${label})`);
+      }
+
+      // Templates are served as written
+      const templated =
+        (response.bodyType === "INLINE" &&
+          typeof response.body === "string" &&
+          response.body.includes("{{")) ||
+        (response.headers || []).some((header) => header.value.includes("{{"));
+      if (templated && !response.disableTemplating) {
+        features.push(`templates (${label})`);
+      }
+    });
+  }
+
+  for (const databucket of config.data || []) {
+    if (databucket.value.includes("{{")) {
+      features.push(`templates (databucket "${databucket.id}")`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Parses the query string of a request
+ * Repeated parameters become arrays
+ * @param params The query parameters
+ * @returns The query as an object
+ */
+function parseQuery(params: URLSearchParams): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+}
+
+/**
+ * Parses the Cookie header of a request
+ * @param header The Cookie header
+ * @returns The cookies by name
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header || "").split(";")) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = decodeURIComponent(
+        pair.slice(index + 1).trim()
+      );
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Reads and parses the body of a request
+ * JSON and form bodies are parsed, other bodies are kept as text
+ * @param req The incoming request
+ * @returns The parsed body
+ */
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  const contentType = req.headers["content-type"] || "";
+
+  if (contentType.includes("json")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return parseQuery(new URLSearchParams(text));
+  }
+  return text;
+}
+
+/**
+ * Builds the body of a response
+ * @param config The Mockoon configuration
+ * @param response The response to serve
+ * @returns The body and the type of the file it serves, or an error status
+ */
+async function buildBody(
+  config: MockoonConfig,
+  response: ResponseConfig
+): Promise<{ body: string | Buffer; contentType?: string; status?: number }> {
+  switch (response.bodyType) {
+    case "FILE": {
+      const filePath = response.filePath;
+      if (!filePath || isTemplatedPath(filePath) || !fs.existsSync(filePath)) {
+        return response.fallbackTo404
+          ? { body: "", status: 404 }
+          : { body: `File not found: ${filePath}`, status: 500 };
+      }
+      return {
+        body: await fs.readFile(filePath),
+        contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()],
+      };
+    }
+
+    case "DATABUCKET": {
+      const databucket = (config.data || []).find(
+        (bucket) =>
+          bucket.id === response.databucketID ||
+          bucket.uuid === response.databucketID
+      );
+      if (!databucket) {
+        return {
+          body: `Databucket not found: ${response.databucketID}`,
+          status: 500,
+        };
+      }
+      return { body: databucket.value };
+    }
+
+    default:
+      return {
+        body:
+          typeof response.body === "string"
+            ? response.body
+            : JSON.stringify(response.body ?? ""),
+      };
+  }
+}
+
+/**
+ * Sets headers on a response, later headers replacing earlier ones
+ * @param res The server response
+ * @param headers The headers to set
+ */
+function setHeaders(res: http.ServerResponse, headers: HeaderConfig[]): void {
+  for (const { key, value } of headers) {
+    if (key) {
+      res.setHeader(key, value);
+    }
+  }
+}
+
+/**
+ * Starts an HTTP server answering requests like Mockoon would for the
+ * supported subset of features: the endpoint prefix, routes with ":param"
+ * segments, INLINE, FILE and DATABUCKET bodies, status codes, headers,
+ * CORS headers and preflights, latencies, response modes and response rules
+ * on the request
+ * Every unsupported feature in use is reported as a warning
+ * @param config The Mockoon configuration
+ * @param options The server options
+ * @returns The running server
+ */
+export async function startPreviewServer(
+  config: MockoonConfig,
+  options: PreviewServerOptions = {}
+): Promise<PreviewServer> {
+  const { logger = silentLogger, port = config.port } = options;
+
+  findUnsupportedFeatures(config).forEach((feature) =>
+    logger.warn(`Warning: the preview server doesn't support ${feature}`)
+  );
+
+  const requestCounts = new Map<string, number>();
+
+  const handle = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = (req.method || "GET").toLowerCase();
+
+    // Mockoon numbers the requests each route answers, so FALLBACK routes
+    // passing the request on don't count it
+    const nextRequestNumber = (triedRoute: RouteConfig) =>
+      (requestCounts.get(triedRoute.uuid) || 0) + 1;
+    const { route, response } = resolveResponse(
+      config,
+      {
+        method,
+        path: url.pathname,
+        query: parseQuery(url.searchParams),
+        headers: req.headers,
+        body: await readBody(req),
+        cookies: parseCookies(req.headers.cookie),
+      },
+      { requestNumber: nextRequestNumber }
+    );
+
+    // With CORS enabled, every response allows cross-origin requests
+    if (config.cors) {
+      setHeaders(res, CORS_HEADERS);
+    }
+
+    if (!route || !response) {
+      // Answer preflights for routes that don't declare OPTIONS
+      if (config.cors && method === "options") {
+        setHeaders(res, config.headers || []);
+        res.writeHead(200).end();
+      } else {
+        res
+          .writeHead(404, { "Content-Type": "text/plain" })
+          .end(`Cannot ${method.toUpperCase()} ${url.pathname}`);
+      }
+      logger.info(
+        `${method.toUpperCase()} ${url.pathname} -> ${res.statusCode}`
+      );
+      return;
+    }
+
+    requestCounts.set(route.uuid, nextRequestNumber(route));
+
+    const latency = (config.latency || 0) + (response.latency || 0);
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    // The response's headers replace the environment's. A file's own type
+    // replaces the environment's Content-Type, but not the response's
+    const { body, contentType, status } = await buildBody(config, response);
+    setHeaders(res, config.headers || []);
+    if (contentType) {
+      res.setHeader("Content-Type", contentType);
+    }
+    setHeaders(res, response.headers || []);
+    if (!res.hasHeader("Content-Type")) {
+      res.setHeader("Content-Type", DEFAULT_CONTENT_TYPE);
+    }
+    res.writeHead(status || response.statusCode).end(body);
+
+    logger.info(
+      `${method.toUpperCase()} ${url.pathname} -> ${res.statusCode} (${
+        response.label || describeRoute(route)
+      })`
+    );
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      logger.error(
+        `Error serving ${req.url}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      if (!res.headersSent) {
+        res.writeHead(500);
+      }
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, config.hostname || undefined, () => resolve());
+  });
+
+  const address = server.address();
+  const actualPort =
+    typeof address === "object" && address ? address.port : port;
+  const prefix = (config.endpointPrefix || "").replace(/^\/+|\/+$/g, "");
+  const host =
+    config.hostname && config.hostname !== "0.0.0.0"
+      ? config.hostname
+      : "localhost";
+
+  return {
+    port: actualPort,
+    url: `http://${host}:${actualPort}${prefix ? `/${prefix}` : ""}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,276 @@
+import {
+  MockoonConfig,
+  ResponseConfig,
+  ResponseRule,
+  RouteConfig,
+} from "../types";
+import { resolveResponse } from "./response-resolver";
+
+/**
+ * Builds a response with Mockoon's defaults
+ * @param label The response label
+ * @param fields The fields that differ from the defaults
+ * @returns The response
+ */
+function response(
+  label: string,
+  fields: Partial<ResponseConfig> = {}
+): ResponseConfig {
+  return {
+    uuid: `response-${label}`,
+    rules: [],
+    rulesOperator: "OR",
+    statusCode: 200,
+    label,
+    headers: [],
+    body: "",
+    latency: 0,
+    bodyType: "INLINE",
+    filePath: "",
+    databucketID: "",
+    sendFileAsBody: false,
+    disableTemplating: false,
+    fallbackTo404: false,
+    default: false,
+    ...fields,
+  };
+}
+
+/**
+ * Builds a rule with Mockoon's defaults
+ * @param fields The fields that differ from the defaults
+ * @returns The rule
+ */
+function rule(fields: Partial<ResponseRule>): ResponseRule {
+  return {
+    target: "query",
+    modifier: "",
+    value: "",
+    invert: false,
+    operator: "equals",
+    ...fields,
+  };
+}
+
+/**
+ * Builds an HTTP route
+ * @param endpoint The route endpoint
+ * @param responses The route responses
+ * @param fields The fields that differ from the defaults
+ * @returns The route
+ */
+function route(
+  endpoint: string,
+  responses: ResponseConfig[],
+  fields: Partial<RouteConfig> = {}
+): RouteConfig {
+  return {
+    uuid: `route-${endpoint}`,
+    type: "http",
+    documentation: "",
+    method: "get",
+    endpoint,
+    responses,
+    responseMode: null,
+    ...fields,
+  };
+}
+
+/**
+ * Builds an environment serving routes
+ * @param routes The routes
+ * @param endpointPrefix The endpoint prefix
+ * @returns The environment
+ */
+function environment(
+  routes: RouteConfig[],
+  endpointPrefix = ""
+): MockoonConfig {
+  return { endpointPrefix, routes } as MockoonConfig;
+}
+
+describe("resolveResponse", () => {
+  it("matches the endpoint prefix and path parameters", () => {
+    const config = environment(
+      [route("users/:id", [response("User")])],
+      "/api/"
+    );
+
+    const resolved = resolveResponse(config, {
+      method: "GET",
+      path: "/api/users/42",
+    });
+    expect(resolved.route?.endpoint).toBe("users/:id");
+    expect(resolved.params).toEqual({ id: "42" });
+    expect(resolved.reason).toBe("default");
+
+    expect(
+      resolveResponse(config, { method: "GET", path: "/users/42" }).reason
+    ).toBe("not found");
+    expect(
+      resolveResponse(config, { method: "POST", path: "/api/users/42" }).reason
+    ).toBe("not found");
+  });
+
+  it("picks the first response whose rules match", () => {
+    const config = environment([
+      route("users", [
+        response("All", { default: true }),
+        response("Admins", {
+          rules: [rule({ modifier: "role", value: "admin" })],
+        }),
+        response("JSON", {
+          rules: [
+            rule({
+              target: "header",
+              modifier: "Accept",
+              value: "json",
+              operator: "regex",
+            }),
+          ],
+        }),
+      ]),
+    ]);
+
+    const admins = resolveResponse(config, {
+      method: "get",
+      path: "/users?role=admin",
+      headers: { accept: "application/json" },
+    });
+    expect(admins.response?.label).toBe("Admins");
+    expect(admins.reason).toBe("rules");
+    expect(admins.trace.map(({ matched }) => matched)).toEqual([false, true]);
+
+    const json = resolveResponse(config, {
+      method: "get",
+      path: "/users",
+      headers: { ACCEPT: "application/json" },
+    });
+    expect(json.response?.label).toBe("JSON");
+
+    const fallback = resolveResponse(config, { method: "get", path: "/users" });
+    expect(fallback.response?.label).toBe("All");
+    expect(fallback.reason).toBe("default");
+  });
+
+  it("combines rules with the rules operator and the invert flag", () => {
+    const config = environment([
+      route("orders", [
+        response("Paid by others", {
+          rulesOperator: "AND",
+          rules: [
+            rule({ target: "body", modifier: "$.status", value: "paid" }),
+            rule({
+              target: "body",
+              modifier: "customer.id",
+              value: "1",
+              invert: true,
+            }),
+          ],
+        }),
+        response("Other", { default: true }),
+      ]),
+    ]);
+    const resolve = (body: unknown) =>
+      resolveResponse(config, { method: "get", path: "/orders", body }).response
+        ?.label;
+
+    expect(resolve({ status: "paid", customer: { id: 2 } })).toBe(
+      "Paid by others"
+    );
+    expect(resolve({ status: "paid", customer: { id: 1 } })).toBe("Other");
+    expect(resolve({ status: "open", customer: { id: 2 } })).toBe("Other");
+  });
+
+  it("never matches rules it can't evaluate", () => {
+    const config = environment([
+      route("users", [
+        response("Templated", {
+          rules: [rule({ target: "templating", value: "true" })],
+        }),
+        response("Default", { default: true }),
+      ]),
+    ]);
+
+    const resolved = resolveResponse(config, { method: "get", path: "/users" });
+    expect(resolved.response?.label).toBe("Default");
+    expect(resolved.trace[0].rules[0].supported).toBe(false);
+  });
+
+  it("serves the responses in turn with SEQUENTIAL", () => {
+    const config = environment([
+      route("status", [response("First"), response("Second")], {
+        responseMode: "SEQUENTIAL",
+      }),
+    ]);
+
+    const labels = [1, 2, 3].map(
+      (requestNumber) =>
+        resolveResponse(config, {
+          method: "get",
+          path: "/status",
+          requestNumber,
+        }).response?.label
+    );
+    expect(labels).toEqual(["First", "Second", "First"]);
+  });
+
+  it("uses the given random source with RANDOM", () => {
+    const config = environment([
+      route("status", [response("First"), response("Second")], {
+        responseMode: "RANDOM",
+      }),
+    ]);
+
+    const resolved = resolveResponse(
+      config,
+      { method: "get", path: "/status" },
+      { random: () => 0.9 }
+    );
+    expect(resolved.response?.label).toBe("Second");
+    expect(resolved.reason).toBe("random");
+  });
+
+  it("passes the request on to the next route with FALLBACK", () => {
+    const config = environment([
+      route(
+        "users/:id",
+        [
+          response("Me", {
+            rules: [rule({ target: "params", modifier: "id", value: "me" })],
+          }),
+        ],
+        { responseMode: "FALLBACK" }
+      ),
+      route("users/*", [response("Anyone")], { method: "all" }),
+    ]);
+
+    expect(
+      resolveResponse(config, { method: "get", path: "/users/me" }).response
+        ?.label
+    ).toBe("Me");
+    const passed = resolveResponse(config, { method: "get", path: "/users/2" });
+    expect(passed.response?.label).toBe("Anyone");
+    expect(passed.trace).toHaveLength(2);
+  });
+
+  it("gives each route tried its own request number", () => {
+    const secondRequest = (label: string) =>
+      response(label, {
+        rules: [rule({ target: "request_number", value: "2" })],
+      });
+    const config = environment([
+      route("items", [secondRequest("First route")], {
+        responseMode: "FALLBACK",
+      }),
+      route("items", [secondRequest("Second route")], { uuid: "second" }),
+    ]);
+
+    const resolved = resolveResponse(
+      config,
+      { method: "get", path: "/items", requestNumber: 2 },
+      { requestNumber: (tried) => (tried.uuid === "second" ? 2 : 1) }
+    );
+    expect(resolved.response?.label).toBe("Second route");
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Pick the route and response Mockoon would serve for a request
+ */
+import {
+  MockoonConfig,
+  ResponseConfig,
+  ResponseRule,
+  ResponseRuleOperators,
+  ResponseRuleTargets,
+  RouteConfig,
+} from "../types";
+
+/**
+ * A request to resolve
+ */
+export interface ResolveRequest {
+  method: string;
+  // The request path, e.g. "/api/users/1", optionally with a query string
+  path: string;
+  // Query parameters, repeated ones as arrays (default: none)
+  query?: Record<string, unknown>;
+  // Request headers, in any case (default: none)
+  headers?: Record<string, string | string[] | undefined>;
+  // The parsed JSON or form body, or the raw text of other bodies
+  body?: unknown;
+  cookies?: Record<string, string>;
+  // How many requests the route received, this one included (default: 1)
+  requestNumber?: number;
+}
+
+/**
+ * A request with every part filled in and lower-case header names
+ */
+type RequestValues = Required<Omit<ResolveRequest, "body">> & {
+  body?: unknown;
+};
+
+/**
+ * How a rule evaluated against a request
+ */
+export interface RuleEvaluation {
+  rule: ResponseRule;
+  // The value the rule read from the request
+  value: unknown;
+  // False for targets and operators the resolver can't evaluate, which
+  // never match
+  supported: boolean;
+  // Whether the rule matched, after applying its invert flag
+  matched: boolean;
+}
+
+/**
+ * How the rules of a response evaluated against a request
+ */
+export interface ResponseEvaluation {
+  route: RouteConfig;
+  response: ResponseConfig;
+  rules: RuleEvaluation[];
+  // Whether the response's rules matched, combined with its rulesOperator
+  matched: boolean;
+}
+
+/**
+ * Why a response was picked
+ */
+export type ResolveReason =
+  "rules" | "default" | "sequential" | "random" | "not found";
+
+/**
+ * The route and response resolved for a request
+ */
+export interface ResolvedResponse {
+  // The route answering the request, undefined when none does
+  route?: RouteConfig;
+  response?: ResponseConfig;
+  // The values of the route's path parameters
+  params: Record<string, string>;
+  reason: ResolveReason;
+  // The responses whose rules were evaluated, in evaluation order
+  trace: ResponseEvaluation[];
+}
+
+/**
+ * Options for resolving a request
+ */
+export interface ResolveOptions {
+  // Replaces Math.random for RANDOM routes, for repeatable tests
+  random?: () => number;
+  // Gives the request number of each route tried, replacing
+  // request.requestNumber (e.g. for a server keeping a counter per route)
+  requestNumber?: (route: RouteConfig) => number;
+}
+
+/**
+ * A route matching a request, with the values of its path parameters
+ */
+export interface RouteMatch {
+  route: RouteConfig;
+  params: Record<string, string>;
+}
+
+/**
+ * Rule targets the resolver evaluates
+ */
+export const SUPPORTED_RULE_TARGETS: ResponseRuleTargets[] = [
+  "body",
+  "query",
+  "header",
+  "cookie",
+  "params",
+  "path",
+  "method",
+  "request_number",
+];
+
+/**
+ * Rule operators the resolver evaluates
+ */
+export const SUPPORTED_RULE_OPERATORS: ResponseRuleOperators[] = [
+  "equals",
+  "regex",
+  "regex_i",
+  "null",
+  "empty_array",
+  "array_includes",
+];
+
+/**
+ * Escapes a string for use in a regular expression
+ * @param value The string to escape
+ * @returns The escaped string
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the regular expression matching the paths of a route
+ * ":name" segments capture one path segment, "*" matches anything
+ * @param prefix The environment's endpoint prefix
+ * @param endpoint The route endpoint
+ * @returns The expression and the names of its parameters
+ */
+function endpointPattern(
+  prefix: string,
+  endpoint: string
+): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const path = [prefix, endpoint]
+    .map((part) => part.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean)
+    .join("/");
+
+  const source = path
+    .split(/(:[A-Za-z0-9_]+|\*)/)
+    .map((part) => {
+      if (part === "*") {
+        return ".*";
+      }
+      if (part.startsWith(":")) {
+        names.push(part.slice(1));
+        return "([^/]+)";
+      }
+      return escapeRegExp(part);
+    })
+    .join("");
+
+  return { pattern: new RegExp(`^/${source}/?$`, "i"), names };
+}
+
+/**
+ * Finds the routes matching a request, in the order Mockoon tries them
+ * Only HTTP routes are matched
+ * @param config The Mockoon configuration
+ * @param method The request method
+ * @param path The request path without the query string
+ * @returns The matching routes with their path parameters
+ */
+export function matchRoutes(
+  config: MockoonConfig,
+  method: string,
+  path: string
+): RouteMatch[] {
+  const matches: RouteMatch[] = [];
+  let decodedPath = path;
+  try {
+    decodedPath = decodeURIComponent(path);
+  } catch {
+    // Keep malformed paths as they are
+  }
+
+  for (const route of config.routes) {
+    if (
+      route.type !== "http" ||
+      (route.method !== "all" && route.method !== method.toLowerCase())
+    ) {
+      continue;
+    }
+
+    const { pattern, names } = endpointPattern(
+      config.endpointPrefix || "",
+      route.endpoint
+    );
+    const match = pattern.exec(decodedPath);
+    if (match) {
+      matches.push({
+        route,
+        params: Object.fromEntries(
+          names.map((name, index) => [name, match[index + 1]])
+        ),
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Reads a value at a path such as "user.roles.0", "items[1].name" or the
+ * JSONPath-like "$.items[1].name"
+ * @param value The value to read from
+ * @param path The path, empty for the value itself
+ * @returns The value at the path, or undefined if there is none
+ */
+function readPath(value: unknown, path: string): unknown {
+  const segments = path
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\w+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+
+  return segments.reduce<unknown>(
+    (current, segment) =>
+      current !== null && typeof current === "object"
+        ? (current as Record<string, unknown>)[segment]
+        : undefined,
+    value
+  );
+}
+
+/**
+ * Reads the value a rule checks from the request
+ * @param rule The rule
+ * @param request The request
+ * @param params The path parameters of the matched route
+ * @returns The value, or undefined if the request doesn't have it
+ */
+function ruleValue(
+  rule: ResponseRule,
+  request: RequestValues,
+  params: Record<string, string>
+): unknown {
+  switch (rule.target) {
+    case "body":
+      return rule.modifier
+        ? readPath(request.body, rule.modifier)
+        : request.body;
+    case "query":
+      return rule.modifier
+        ? readPath(request.query, rule.modifier)
+        : request.query;
+    case "header":
+      return request.headers[rule.modifier.toLowerCase()];
+    case "cookie":
+      return request.cookies[rule.modifier];
+    case "params":
+      return params[rule.modifier];
+    case "path":
+      return request.path;
+    case "method":
+      return request.method;
+    case "request_number":
+      return request.requestNumber;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Converts a value to the text rules compare against
+ * @param value The value to convert
+ * @returns The text
+ */
+function toText(value: unknown): string {
+  return typeof value === "object" && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+}
+
+/**
+ * Checks whether a rule matches a request, before applying its invert flag
+ * Array values match when one of their items does
+ * @param rule The rule
+ * @param value The value read from the request
+ * @returns True if the rule matches
+ */
+function checkRule(rule: ResponseRule, value: unknown): boolean {
+  const values = Array.isArray(value) ? value : [value];
+
+  switch (rule.operator) {
+    case "null":
+      return value === null || value === undefined;
+    case "empty_array":
+      return Array.isArray(value) && value.length === 0;
+    case "array_includes":
+      return (
+        Array.isArray(value) &&
+        value.some((item) => toText(item) === rule.value)
+      );
+    case "equals":
+      return (
+        value !== undefined &&
+        values.some((item) => toText(item) === rule.value)
+      );
+    case "regex":
+    case "regex_i":
+      try {
+        const pattern = new RegExp(
+          rule.value,
+          rule.operator === "regex_i" ? "i" : ""
+        );
+        return (
+          value !== undefined &&
+          values.some((item) => pattern.test(toText(item)))
+        );
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates the rules of a response against a request
+ * @param route The route of the response
+ * @param response The response
+ * @param request The request
+ * @param params The path parameters of the route
+ * @returns How each rule evaluated and whether the response matched, which
+ * needs at least one rule
+ */
+function evaluateResponse(
+  route: RouteConfig,
+  response: ResponseConfig,
+  request: RequestValues,
+  params: Record<string, string>
+): ResponseEvaluation {
+  const rules = (response.rules || []).map((rule) => {
+    const value = ruleValue(rule, request, params);
+    const supported =
+      SUPPORTED_RULE_TARGETS.includes(rule.target) &&
+      SUPPORTED_RULE_OPERATORS.includes(rule.operator);
+    const matched = supported && checkRule(rule, value);
+    return {
+      rule,
+      value,
+      supported,
+      matched: supported && (rule.invert ? !matched : matched),
+    };
+  });
+
+  const matched =
+    rules.length > 0 &&
+    (response.rulesOperator === "AND"
+      ? rules.every((evaluation) => evaluation.matched)
+      : rules.some((evaluation) => evaluation.matched));
+  return { route, response, rules, matched };
+}
+
+/**
+ * Fills in the parts a request leaves out
+ * A query string in the path is added to the query, header names are
+ * lower-cased
+ * @param request The request to resolve
+ * @returns The complete request
+ */
+function normalizeRequest(request: ResolveRequest): RequestValues {
+  const [path, search = ""] = request.path.split("?");
+  const query: Record<string, unknown> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    const previous = query[key];
+    query[key] =
+      previous === undefined
+        ? value
+        : ([] as unknown[]).concat(previous, value);
+  });
+
+  return {
+    method: request.method.toLowerCase(),
+    path: path.startsWith("/") ? path : `/${path}`,
+    query: { ...query, ...request.query },
+    headers: Object.fromEntries(
+      Object.entries(request.headers || {}).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    ),
+    body: request.body,
+    cookies: request.cookies || {},
+    requestNumber: request.requestNumber ?? 1,
+  };
+}
+
+/**
+ * Resolves the route and response Mockoon serves for a request
+ * Routes are tried in order. Depending on the route's responseMode, the
+ * response is picked by its rules (falling back to the default response),
+ * by the request number (SEQUENTIAL), at random (RANDOM) or is always the
+ * default one (DISABLE_RULES). With FALLBACK, a route none of whose rules
+ * match passes the request on to the next matching route.
+ * @param config The Mockoon configuration
+ * @param request The request to resolve
+ * @param options The random source and request counter to use
+ * @returns The route, the response and a trace of the evaluated rules
+ */
+export function resolveResponse(
+  config: MockoonConfig,
+  request: ResolveRequest,
+  options: ResolveOptions = {}
+): ResolvedResponse {
+  const { random = Math.random } = options;
+  const values = normalizeRequest(request);
+  const trace: ResponseEvaluation[] = [];
+
+  for (const { route, params } of matchRoutes(
+    config,
+    values.method,
+    values.path
+  )) {
+    const responses = route.responses || [];
+    if (responses.length === 0) {
+      continue;
+    }
+    // Each route tried has its own request number
+    const routeValues = options.requestNumber
+      ? { ...values, requestNumber: options.requestNumber(route) }
+      : values;
+    const resolved = (response: ResponseConfig, reason: ResolveReason) => ({
+      route,
+      response,
+      params,
+      reason,
+      trace,
+    });
+
+    switch (route.responseMode) {
+      case "RANDOM":
+        return resolved(
+          responses[Math.floor(random() * responses.length)],
+          "random"
+        );
+      case "SEQUENTIAL":
+        return resolved(
+          responses[
+            (Math.max(routeValues.requestNumber, 1) - 1) % responses.length
+          ],
+          "sequential"
+        );
+      case "DISABLE_RULES":
+        return resolved(
+          responses.find((response) => response.default) || responses[0],
+          "default"
+        );
+    }
+
+    for (const response of responses) {
+      const evaluation = evaluateResponse(route, response, routeValues, params);
+      trace.push(evaluation);
+      if (evaluation.matched) {
+        return resolved(response, "rules");
+      }
+    }
+
+    // Without a match, FALLBACK routes let the next route answer
+    if (route.responseMode !== "FALLBACK") {
+      return resolved(
+        responses.find((response) => response.default) || responses[0],
+        "default"
+      );
+    }
+  }
+
+  return { params: {}, reason: "not found", trace };
+}
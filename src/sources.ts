@@ -0,0 +1,61 @@
+/**
+ * Remember which source file each configuration object was loaded from
+ */
+import { toSourcePath } from "./identifiers";
+
+/**
+ * Source files of the loaded configuration objects, relative to the
+ * source directory (e.g. "features/users/get-user.ts")
+ */
+const sourceFiles = new WeakMap<object, string>();
+
+/**
+ * Records the source file of a configuration object
+ * @param config The configuration object
+ * @param compiledDir The directory containing the compiled JavaScript files
+ * @param filePath The path to the compiled file the object was loaded from
+ */
+export function recordSource(
+  config: object,
+  compiledDir: string,
+  filePath: string
+): void {
+  sourceFiles.set(config, `${toSourcePath(compiledDir, filePath)}.ts`);
+}
+
+/**
+ * Gets the source file a configuration object was loaded from
+ * @param config The configuration object
+ * @returns The source file relative to the source directory, or undefined
+ * if the object was not loaded from a source file
+ */
+export function sourceOf(config: unknown): string | undefined {
+  return typeof config === "object" && config !== null
+    ? sourceFiles.get(config)
+    : undefined;
+}
+
+/**
+ * Appends the source file of a configuration object to its description
+ * @param description What the object is (e.g. 'databucket "users"')
+ * @param config The configuration object
+ * @returns The description, followed by the source file where known
+ */
+export function withSource(description: string, config: unknown): string {
+  const file = sourceOf(config);
+  return file ? `${description} (${file})` : description;
+}
+
+/**
+ * Records that a copy of a configuration object comes from the same source file
+ * @param original The configuration object that was copied
+ * @param copy The copy
+ * @returns The copy
+ */
+export function keepSource<T extends object>(original: object, copy: T): T {
+  const file = sourceFiles.get(original);
+  if (file) {
+    sourceFiles.set(copy, file);
+  }
+  return copy;
+}
@@ -0,0 +1,80 @@
+/**
+ * Handlebars templates inside structured response bodies and databucket values
+ */
+
+/**
+ * Marks template values; Symbol.for so values created with another copy of
+ * the package are recognised too
+ */
+const TEMPLATE = Symbol.for("mockoon-config-generator.template");
+
+/**
+ * A raw Handlebars expression written to the JSON output without quotes
+ */
+export interface Template {
+  [TEMPLATE]: string;
+  toJSON(): string;
+}
+
+/**
+ * Checks whether a value was created with template()
+ * @param value The value to check
+ * @returns True if the value is a template
+ */
+export function isTemplate(value: unknown): value is Template {
+  return typeof value === "object" && value !== null && TEMPLATE in value;
+}
+
+/**
+ * Inserts a raw Handlebars expression into a structured value, e.g. a number
+ * generated with {{faker 'number.int'}}, which a quoted string can't express
+ * @param expression The Handlebars source to write as is
+ * @returns A placeholder typed as the value the expression renders to
+ */
+export function template<T = any>(expression: string): T {
+  const value: Template = {
+    [TEMPLATE]: expression,
+    // Plain JSON.stringify (and anything reading the sources) sees the expression
+    toJSON: () => expression,
+  };
+  return value as unknown as T;
+}
+
+/**
+ * Builds an array of generated items with Mockoon's {{#repeat}} helper
+ * @param count The number of items, or the minimum and maximum number
+ * @param item The structured item, which may contain templates
+ * @returns A placeholder typed as the array of items
+ */
+export function repeat<T>(count: number | [number, number], item: T): T[] {
+  const times = Array.isArray(count) ? count.join(" ") : count;
+  return template<T[]>(
+    `[{{#repeat ${times}}}${serializeValue(item)}{{/repeat}}]`
+  );
+}
+
+/**
+ * Serialises a structured body or databucket value to JSON, writing
+ * templates as raw Handlebars expressions
+ * @param value The value to serialise
+ * @returns The JSON text
+ */
+export function serializeValue(value: unknown): string {
+  const expressions: string[] = [];
+  const marker = `__mockoon_template_${Date.now().toString(36)}_`;
+
+  const json = JSON.stringify(value, function (this: any, key, replaced) {
+    // The holder still has the template, the value is already its toJSON()
+    const original = this[key];
+    if (isTemplate(original)) {
+      expressions.push(original[TEMPLATE]);
+      return `${marker}${expressions.length - 1}`;
+    }
+    return replaced;
+  });
+
+  return json.replace(
+    new RegExp(`"${marker}(\\d+)"`, "g"),
+    (_, index) => expressions[Number(index)]
+  );
+}
@@ -59,6 +59,15 @@ export interface CallbackInvocation {
   latency: number;
 }
 
+/**
+ * Callback invocation referring to an imported callback definition
+ * (generator only, resolved to a CallbackInvocation by the callback's id)
+ */
+export interface CallbackReference {
+  callback: CallbackInput;
+  latency: number;
+}
+
 /**
  * Response rule operators
  */
@@ -149,6 +158,9 @@ export interface RouteConfig<T = any> {
   // used in websocket routes
   streamingMode?: StreamingMode | null;
   streamingInterval?: number;
+  // position among the routes and folders of the same directory
+  // (generator only, removed from the output)
+  order?: number;
 }
 
 /**
@@ -166,17 +178,22 @@ export interface FolderConfig {
   uuid: string;
   name: string;
   children: FolderChild[];
+  // position among the routes and folders of the parent directory
+  // (generator only, removed from the output)
+  order?: number;
 }
 
 /**
  * Databucket configuration
  */
-export interface DatabucketConfig {
+export interface DatabucketConfig<T = string> {
   uuid: string;
   id: string;
   name: string;
   documentation: string;
-  value: string;
+  // JSON text in the generated config; source files can use a structured
+  // value, serialised by the generator
+  value: T;
 }
 
 /**
@@ -197,6 +214,16 @@ export interface Callback {
   databucketID?: string;
 }
 
+/**
+ * Glob patterns selecting which source files an environment includes
+ */
+export interface SourceFilter {
+  // only include matching paths (default: everything)
+  include?: string[];
+  // leave out matching paths, even if they are included
+  exclude?: string[];
+}
+
 /**
  * Global configuration for the Mockoon environment
  */
@@ -217,6 +244,15 @@ export interface GlobalConfig {
   headers: HeaderConfig[];
   tlsOptions: TLSOptions;
   callbacks?: Callback[];
+  // feature folders and routes of this environment, matched against their
+  // path under features/ (e.g. "billing/**") (generator only)
+  features?: SourceFilter;
+  // databuckets of this environment, matched against their file name
+  // under data/ (e.g. "users") (generator only)
+  databuckets?: SourceFilter;
+  // profiles with overlay files (e.g. "ci" for get-user.ci.ts), which are
+  // never read as sources of their own (generator only)
+  profiles?: string[];
 }
 
 /**
@@ -249,3 +285,63 @@ export interface MockoonConfig {
  * Collection of environments
  */
 export type Environments = MockoonConfig[];
+
+/**
+ * Profile overlay for a config file: every field is optional, objects are
+ * merged with the base file and arrays replace the base value
+ */
+export type Overlay<T> = {
+  [K in keyof T]?: T[K] extends (infer U)[]
+    ? U[]
+    : T[K] extends object
+    ? Overlay<T[K]>
+    : T[K];
+};
+
+/**
+ * Response as written in source files: the fields left out get Mockoon's
+ * defaults (a 200 INLINE response without rules, headers or latency)
+ */
+export type ResponseInput<T = any> = Partial<
+  Omit<ResponseConfig<T>, "callbacks">
+> & {
+  // callbacks to invoke, by UUID or as imported definitions resolved to
+  // their UUIDs by the generator
+  callbacks?: (CallbackInvocation | CallbackReference)[];
+  // imported databucket to serve, resolved to databucketID by its id
+  databucket?: DatabucketConfig<unknown>;
+};
+
+/**
+ * Route as written in source files: only the endpoint and the responses are
+ * required, the other fields get Mockoon's defaults (an HTTP GET route)
+ */
+export type RouteInput<T = any> = Partial<
+  Omit<RouteConfig<T>, "endpoint" | "responses">
+> &
+  Pick<RouteConfig<T>, "endpoint"> & {
+    responses: ResponseInput<T>[];
+  };
+
+/**
+ * Callback as written in source files: only the id and the URI are
+ * required, the name defaults to the id
+ */
+export type CallbackInput = Partial<Callback> & Pick<Callback, "id" | "uri">;
+
+/**
+ * TLS options as written in source files, TLS is disabled by default
+ */
+export type TLSOptionsInput = Partial<TLSOptions>;
+
+/**
+ * Global configuration as written in source files: only the UUID is
+ * required, the other fields get Mockoon's defaults (port 3000, CORS enabled)
+ */
+export type GlobalConfigInput = Partial<
+  Omit<GlobalConfig, "uuid" | "tlsOptions" | "callbacks">
+> &
+  Pick<GlobalConfig, "uuid"> & {
+    tlsOptions?: TLSOptionsInput;
+    callbacks?: CallbackInput[];
+  };
@@ -1,6 +1,24 @@
 /**
- * Validates that all required UUIDs are provided in the configuration objects
+ * Validates the UUIDs and the structure of the configuration objects
  */
+import { ValidationError, ValidationIssue } from "./errors";
+import {
+  BodyTypes,
+  Callback,
+  DatabucketConfig,
+  FolderConfig,
+  GlobalConfig,
+  LogicalOperators,
+  Methods,
+  ResponseMode,
+  ResponseRuleOperators,
+  ResponseRuleTargets,
+  RouteConfig,
+  RouteType,
+  StreamingMode,
+  TLSOptionsType,
+} from "./types";
+import { sourceOf } from "./sources";
 
 /**
  * Validates that the UUID is in the correct format
@@ -14,44 +32,471 @@ export function isValidUUIDFormat(uuid: string): boolean {
 }
 
 /**
- * Validates that all required UUIDs are provided in the given object
- * and that they are in the correct format
- * @param obj The object to validate
- * @param path The path to the object (for error messages)
+ * Expected type and allowed values of a configuration field
  */
-export function validateUUID(obj: any, path: string): void {
-  if (!obj) {
+interface FieldSchema {
+  type: "string" | "number" | "boolean" | "array" | "object" | "any";
+  optional?: boolean;
+  nullable?: boolean;
+  // allowed values of a string field
+  values?: readonly string[];
+  // string field holding a UUID
+  uuid?: boolean;
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  // schema of the objects in an array field
+  items?: ObjectSchema;
+  // schema of an object field
+  fields?: ObjectSchema;
+}
+
+/**
+ * Expected fields of a configuration object
+ */
+type ObjectSchema = Record<string, FieldSchema>;
+
+/**
+ * Lists the keys of a record, so the compiler checks that every member of a
+ * union type is listed
+ * @param record A record with a key for every allowed value
+ * @returns The allowed values
+ */
+function valuesOf<T extends string>(record: Record<T, true>): T[] {
+  return Object.keys(record) as T[];
+}
+
+const BODY_TYPES = valuesOf<BodyTypes>({
+  INLINE: true,
+  FILE: true,
+  DATABUCKET: true,
+});
+
+const LOGICAL_OPERATORS = valuesOf<LogicalOperators>({ AND: true, OR: true });
+
+const ROUTE_TYPES = valuesOf<RouteType>({ http: true, crud: true, ws: true });
+
+const RESPONSE_MODES = valuesOf<ResponseMode>({
+  RANDOM: true,
+  SEQUENTIAL: true,
+  DISABLE_RULES: true,
+  FALLBACK: true,
+});
+
+const STREAMING_MODES = valuesOf<StreamingMode>({
+  UNICAST: true,
+  BROADCAST: true,
+});
+
+const TLS_OPTIONS_TYPES = valuesOf<TLSOptionsType>({ PFX: true, CERT: true });
+
+const RULE_OPERATORS = valuesOf<ResponseRuleOperators>({
+  equals: true,
+  regex: true,
+  regex_i: true,
+  null: true,
+  empty_array: true,
+  array_includes: true,
+  valid_json_schema: true,
+});
+
+const RULE_TARGETS = valuesOf<ResponseRuleTargets>({
+  body: true,
+  query: true,
+  header: true,
+  cookie: true,
+  params: true,
+  path: true,
+  method: true,
+  request_number: true,
+  global_var: true,
+  data_bucket: true,
+  templating: true,
+});
+
+const METHODS = Object.values(Methods) as string[];
+
+const HEADER_SCHEMA: ObjectSchema = {
+  key: { type: "string" },
+  value: { type: "string" },
+};
+
+const RULE_SCHEMA: ObjectSchema = {
+  target: { type: "string", values: RULE_TARGETS },
+  modifier: { type: "string" },
+  value: { type: "string" },
+  invert: { type: "boolean" },
+  operator: { type: "string", values: RULE_OPERATORS },
+};
+
+const FOLDER_CHILD_SCHEMA: ObjectSchema = {
+  type: { type: "string", values: ["route", "folder"] },
+  uuid: { type: "string", uuid: true },
+};
+
+const FOLDER_SCHEMA: ObjectSchema = {
+  uuid: { type: "string", uuid: true },
+  name: { type: "string" },
+  children: { type: "array", items: FOLDER_CHILD_SCHEMA },
+  order: { type: "number", optional: true },
+};
+
+const CALLBACK_INVOCATION_SCHEMA: ObjectSchema = {
+  uuid: { type: "string" },
+  latency: { type: "number", min: 0 },
+};
+
+const RESPONSE_SCHEMA: ObjectSchema = {
+  uuid: { type: "string", uuid: true },
+  rules: { type: "array", items: RULE_SCHEMA },
+  rulesOperator: { type: "string", values: LOGICAL_OPERATORS },
+  statusCode: { type: "number", integer: true, min: 100, max: 599 },
+  label: { type: "string" },
+  headers: { type: "array", items: HEADER_SCHEMA },
+  body: { type: "any", optional: true },
+  latency: { type: "number", min: 0 },
+  bodyType: { type: "string", values: BODY_TYPES },
+  filePath: { type: "string" },
+  databucketID: { type: "string" },
+  sendFileAsBody: { type: "boolean" },
+  disableTemplating: { type: "boolean" },
+  fallbackTo404: { type: "boolean" },
+  default: { type: "boolean" },
+  crudKey: { type: "string", optional: true },
+  callbacks: {
+    type: "array",
+    optional: true,
+    items: CALLBACK_INVOCATION_SCHEMA,
+  },
+};
+
+const ROUTE_SCHEMA: ObjectSchema = {
+  uuid: { type: "string", uuid: true },
+  type: { type: "string", values: ROUTE_TYPES },
+  documentation: { type: "string" },
+  method: { type: "string", values: ["", ...METHODS] },
+  endpoint: { type: "string" },
+  responses: { type: "array", items: RESPONSE_SCHEMA },
+  responseMode: {
+    type: "string",
+    optional: true,
+    nullable: true,
+    values: RESPONSE_MODES,
+  },
+  streamingMode: {
+    type: "string",
+    optional: true,
+    nullable: true,
+    values: STREAMING_MODES,
+  },
+  streamingInterval: { type: "number", optional: true, min: 0 },
+  order: { type: "number", optional: true },
+};
+
+const DATABUCKET_SCHEMA: ObjectSchema = {
+  uuid: { type: "string", uuid: true },
+  id: { type: "string" },
+  name: { type: "string" },
+  documentation: { type: "string" },
+  value: { type: "any" },
+};
+
+const CALLBACK_SCHEMA: ObjectSchema = {
+  uuid: { type: "string", uuid: true },
+  id: { type: "string" },
+  name: { type: "string" },
+  documentation: { type: "string" },
+  method: { type: "string", values: METHODS },
+  uri: { type: "string" },
+  headers: { type: "array", items: HEADER_SCHEMA },
+  body: { type: "string", optional: true },
+  filePath: { type: "string", optional: true },
+  sendFileAsBody: { type: "boolean", optional: true },
+  bodyType: { type: "string", values: BODY_TYPES },
+  databucketID: { type: "string", optional: true },
+};
+
+const TLS_OPTIONS_SCHEMA: ObjectSchema = {
+  enabled: { type: "boolean" },
+  type: { type: "string", values: TLS_OPTIONS_TYPES },
+  pfxPath: { type: "string" },
+  certPath: { type: "string" },
+  keyPath: { type: "string" },
+  caPath: { type: "string" },
+  passphrase: { type: "string" },
+};
+
+const GLOBAL_SCHEMA: ObjectSchema = {
+  uuid: { type: "string", uuid: true },
+  lastMigration: { type: "number", integer: true, min: 0 },
+  name: { type: "string" },
+  endpointPrefix: { type: "string" },
+  latency: { type: "number", min: 0 },
+  port: { type: "number", integer: true, min: 0, max: 65535 },
+  hostname: { type: "string" },
+  proxyMode: { type: "boolean" },
+  proxyHost: { type: "string", optional: true },
+  proxyRemovePrefix: { type: "boolean", optional: true },
+  proxyReqHeaders: { type: "array", optional: true, items: HEADER_SCHEMA },
+  proxyResHeaders: { type: "array", optional: true, items: HEADER_SCHEMA },
+  cors: { type: "boolean" },
+  headers: { type: "array", items: HEADER_SCHEMA },
+  tlsOptions: { type: "object", fields: TLS_OPTIONS_SCHEMA },
+  // checked with the callbacks from the callbacks directory
+  callbacks: { type: "array", optional: true },
+  features: { type: "object", optional: true },
+  databuckets: { type: "object", optional: true },
+  profiles: { type: "array", optional: true },
+};
+
+/**
+ * Describes a value for error messages
+ * @param value The value to describe
+ * @returns A short description of the value
+ */
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (typeof value === "object") {
+    return "an object";
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Gets the type of a value as used in the schemas
+ * @param value The value
+ * @returns The schema type of the value
+ */
+function typeOf(value: unknown): FieldSchema["type"] {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value as FieldSchema["type"];
+}
+
+/**
+ * Checks a configuration object against a schema, collecting every problem
+ * Fields the schema doesn't list are reported, since a misspelled field
+ * would otherwise be replaced by its default
+ * @param value The configuration object
+ * @param schema The expected fields
+ * @param path The path to the object (empty for a source file's own object)
+ * @param file The source file of the enclosing object
+ * @param issues Receives the problems found
+ */
+function checkObject(
+  value: any,
+  schema: ObjectSchema,
+  path: string,
+  file: string | undefined,
+  issues: ValidationIssue[]
+): void {
+  file = sourceOf(value) || file;
+
+  if (typeOf(value) !== "object" || value === null) {
+    issues.push({
+      file,
+      path,
+      message: `expected an object, got ${describeValue(value)}`,
+    });
     return;
   }
 
-  if (typeof obj === "object" && "uuid" in obj) {
-    // Check if UUID is missing
-    if (!obj.uuid) {
-      throw new Error(`Missing UUID in ${path}`);
+  for (const [key, field] of Object.entries(schema)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const fieldValue = value[key];
+
+    if (fieldValue === undefined) {
+      if (!field.optional) {
+        issues.push({ file, path: fieldPath, message: "is required" });
+      }
+      continue;
+    }
+    if (fieldValue === null && field.nullable) {
+      continue;
+    }
+    if (field.type === "any") {
+      continue;
+    }
+
+    if (typeOf(fieldValue) !== field.type || fieldValue === null) {
+      issues.push({
+        file,
+        path: fieldPath,
+        message: `expected ${field.type === "array" ? "an" : "a"} ${
+          field.type
+        }, got ${describeValue(fieldValue)}`,
+      });
+      continue;
+    }
+
+    if (field.values && !field.values.includes(fieldValue)) {
+      issues.push({
+        file,
+        path: fieldPath,
+        message: `expected one of ${field.values
+          .map((allowed) => JSON.stringify(allowed))
+          .join(", ")}, got ${describeValue(fieldValue)}`,
+      });
+    }
+
+    if (field.uuid && !isValidUUIDFormat(fieldValue)) {
+      issues.push({
+        file,
+        path: fieldPath,
+        message: `expected a UUID, got ${describeValue(fieldValue)}`,
+      });
+    }
+
+    if (field.type === "number") {
+      checkNumber(fieldValue, field, fieldPath, file, issues);
+    }
+
+    if (field.items) {
+      const items = field.items;
+      fieldValue.forEach((item: any, index: number) => {
+        // Name items by their label where they have one, e.g. responses
+        const label =
+          typeof item?.label === "string" && item.label
+            ? ` (${JSON.stringify(item.label)})`
+            : "";
+        checkObject(
+          item,
+          items,
+          `${fieldPath}[${index}]${label}`,
+          file,
+          issues
+        );
+      });
     }
 
-    // Check if UUID format is invalid
-    if (!isValidUUIDFormat(obj.uuid)) {
-      throw new Error(`Invalid UUID format in ${path}: ${obj.uuid}`);
+    if (field.fields) {
+      checkObject(fieldValue, field.fields, fieldPath, file, issues);
     }
   }
 
-  // Validate UUIDs in nested objects
-  if (Array.isArray(obj)) {
-    obj.forEach((item, index) => {
-      validateUUID(item, `${path}[${index}]`);
-    });
-  } else if (typeof obj === "object" && obj !== null) {
-    for (const key in obj) {
-      if (
-        key === "responses" ||
-        key === "children" ||
-        key === "data" ||
-        key === "routes" ||
-        key === "folders"
-      ) {
-        validateUUID(obj[key], `${path}.${key}`);
-      }
+  for (const key of Object.keys(value)) {
+    if (!(key in schema)) {
+      issues.push({
+        file,
+        path: path ? `${path}.${key}` : key,
+        message: "is not a known field",
+      });
     }
   }
 }
+
+/**
+ * Checks a number against the constraints of its field
+ * @param value The number
+ * @param field The field schema
+ * @param path The path to the number
+ * @param file The source file of the enclosing object
+ * @param issues Receives the problems found
+ */
+function checkNumber(
+  value: number,
+  field: FieldSchema,
+  path: string,
+  file: string | undefined,
+  issues: ValidationIssue[]
+): void {
+  if (!Number.isFinite(value) || (field.integer && !Number.isInteger(value))) {
+    issues.push({
+      file,
+      path,
+      message: `expected ${field.integer ? "an integer" : "a finite number"}, got ${value}`,
+    });
+  } else if (
+    (field.min !== undefined && value < field.min) ||
+    (field.max !== undefined && value > field.max)
+  ) {
+    issues.push({
+      file,
+      path,
+      message: `expected a number ${
+        field.max !== undefined
+          ? `between ${field.min} and ${field.max}`
+          : `of at least ${field.min}`
+      }, got ${value}`,
+    });
+  }
+}
+
+/**
+ * Validates the UUIDs and the structure of the configuration objects against
+ * the allowed values in types.ts, reporting every problem at once
+ * @param globalConfig The global configuration
+ * @param folders The folders
+ * @param routes The routes with their responses and rules
+ * @param databuckets The databuckets
+ * @param callbacks The inline and file callbacks
+ * @throws ValidationError listing every problem with its source file
+ */
+export function validateSchema(
+  globalConfig: GlobalConfig,
+  folders: FolderConfig[],
+  routes: RouteConfig[],
+  databuckets: DatabucketConfig<unknown>[],
+  callbacks: Callback[]
+): void {
+  const issues: ValidationIssue[] = [];
+
+  // Objects not loaded from a source file are located by their position
+  const rootPath = (config: object, fallback: string) =>
+    sourceOf(config) ? "" : fallback;
+
+  checkObject(
+    globalConfig,
+    GLOBAL_SCHEMA,
+    rootPath(globalConfig, "globalConfig"),
+    undefined,
+    issues
+  );
+  folders.forEach((folder, index) =>
+    checkObject(
+      folder,
+      FOLDER_SCHEMA,
+      rootPath(folder, `folders[${index}]`),
+      undefined,
+      issues
+    )
+  );
+  routes.forEach((route, index) =>
+    checkObject(
+      route,
+      ROUTE_SCHEMA,
+      rootPath(route, `routes[${index}]`),
+      undefined,
+      issues
+    )
+  );
+  databuckets.forEach((databucket, index) =>
+    checkObject(
+      databucket,
+      DATABUCKET_SCHEMA,
+      rootPath(databucket, `data[${index}]`),
+      undefined,
+      issues
+    )
+  );
+
+  callbacks.forEach((callback, index) =>
+    checkObject(
+      callback,
+      CALLBACK_SCHEMA,
+      rootPath(callback, `callbacks[${index}]`),
+      undefined,
+      issues
+    )
+  );
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+}